@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+import MetricsDashboard from "@/components/MetricsDashboard";
+
+export const metadata: Metadata = {
+  title: "Backend stats — Qwen AI Chat",
+  robots: { index: false, follow: false },
+};
+
+// /admin — latency, throughput and errors of the chat backend
+export default function AdminPage() {
+  return <MetricsDashboard />;
+}
@@ -0,0 +1,17 @@
+import { publicBackendConfig } from "@/lib/backendProfiles";
+import { jsonError } from "@/lib/upstream";
+
+// GET /api/backends — the backend profiles the browser may choose from,
+// and whether custom URLs are accepted. Never includes URLs or keys.
+export async function GET() {
+  try {
+    return Response.json(publicBackendConfig());
+  } catch (err) {
+    return jsonError(
+      `Backend profiles are misconfigured: ${
+        err instanceof Error ? err.message : "unknown error"
+      }`,
+      500,
+    );
+  }
+}
@@ -1,140 +1,472 @@
 import { NextRequest } from "next/server";
+import {
+  BackendRequest,
+  ResolvedBackend,
+  resolveBackend,
+} from "@/lib/backendProfiles";
+import { validateChatParams } from "@/lib/chatParams";
+import {
+  CHAT_STREAM_CONTENT_TYPE,
+  ChatStreamEvent,
+  encodeEvent,
+} from "@/lib/chatStream";
+import { continuationMessages } from "@/lib/continuation";
+import {
+  FailureCategory,
+  MAX_FAILOVER_BACKENDS,
+  attemptUpstream,
+  backoffDelay,
+  sleepUntilAborted,
+  upstreamRetries,
+} from "@/lib/failover";
+import { getKnowledgeStore, retrieve } from "@/lib/knowledgeStore";
+import { RequestTrace } from "@/lib/metricsStore";
+import {
+  bucketConfig,
+  clientKey,
+  getRateLimitStore,
+  maxConcurrentStreams,
+  rateLimitResponse,
+} from "@/lib/rateLimit";
+import { Chunk, knowledgePrompt } from "@/lib/retrieval";
+import { MAX_TOOL_ROUNDS, runTool, toolSchemas } from "@/lib/tools";
+import { jsonError, upstreamHeaders } from "@/lib/upstream";
+
+/** A tool call as it accumulates over streamed deltas. */
+interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/** Stream events plus the tool-call fragments only the route consumes. */
+type UpstreamEvent =
+  | ChatStreamEvent
+  | {
+      type: "tool_delta";
+      index: number;
+      id?: string;
+      name?: string;
+      arguments?: string;
+    };
 
 export async function POST(req: NextRequest) {
+  // Set once we hold a concurrent-stream slot; the stream releases it when
+  // it ends, every early return releases it in the `finally` below.
+  let releaseSlot: (() => void) | null = null;
+  let handedToStream = false;
+  let trace: RequestTrace | null = null;
+
   try {
-    const { messages, apiUrl, apiKey: clientApiKey } = await req.json();
+    const payload = await req.json();
+    const {
+      messages,
+      continuation,
+      profileId,
+      apiUrl,
+      apiKey: clientApiKey,
+    } = payload;
+
+    // An ordered failover list, or the single backend of older clients
+    const requested: BackendRequest[] =
+      Array.isArray(payload.backends) && payload.backends.length > 0
+        ? payload.backends
+            .slice(0, MAX_FAILOVER_BACKENDS)
+            .map((b: BackendRequest | null) => ({
+              profileId: b?.profileId,
+              apiUrl: b?.apiUrl,
+              apiKey: b?.apiKey,
+            }))
+        : [{ profileId, apiUrl, apiKey: clientApiKey }];
+    const backends: ResolvedBackend[] = [];
+    for (const request of requested) {
+      const resolved = resolveBackend(request);
+      if (!resolved.ok) return jsonError(resolved.error, resolved.status);
+      backends.push(resolved.backend);
+    }
 
-    if (!apiUrl) {
+    const validation = validateChatParams(payload);
+    if (!validation.ok) {
       return new Response(
         JSON.stringify({
-          error:
-            "API URL not configured. Open Settings to set your ngrok URL and API Key.",
+          error: `Invalid request: ${validation.errors
+            .map((e) => e.message)
+            .join("; ")}`,
+          fields: validation.errors,
         }),
         { status: 400, headers: { "Content-Type": "application/json" } },
       );
     }
+    const {
+      systemPrompt,
+      tools: useTools,
+      knowledgeBaseId,
+      ...sampling
+    } = validation.params;
+    // Requests are measured from here; client mistakes above (and a
+    // missing knowledge base below) aren't recorded
+    const metrics = new RequestTrace(sampling.model);
+    trace = metrics;
 
-    const apiKey = clientApiKey || process.env.API_KEY || "";
+    const limiter = getRateLimitStore();
+    const quota = await limiter.take(clientKey(req.headers), bucketConfig());
+    if (!quota.allowed) {
+      metrics.fail("rate_limited");
+      return rateLimitResponse(
+        "Too many requests — slow down a little.",
+        quota.retryAfterMs,
+      );
+    }
 
-    let baseUrl = apiUrl.replace(/\/+$/, "");
-    if (!baseUrl.endsWith("/v1")) {
-      baseUrl += "/v1";
+    // Excerpts from the conversation's knowledge base, picked for the
+    // latest question
+    let sources: Chunk[] = [];
+    if (knowledgeBaseId) {
+      const base = await getKnowledgeStore().get(knowledgeBaseId);
+      if (!base) {
+        return jsonError(
+          "The knowledge base for this chat no longer exists — pick another from 📚 in the header.",
+          404,
+        );
+      }
+      sources = retrieve(base, lastUserText(messages)).map(
+        ({ path, startLine, endLine, text }) => ({
+          path,
+          startLine,
+          endLine,
+          text,
+        }),
+      );
     }
 
-    // Abort if the upstream model server doesn't respond within 55 s
+    // Abort if no model server responds within 55 s, retries included
     const upstream = new AbortController();
     const upstreamTimeout = setTimeout(() => upstream.abort(), 55000);
+    // ...or as soon as the browser gives up on us (Stop button)
+    req.signal.addEventListener("abort", () => upstream.abort());
+
+    // Tool rounds append the calls and their results to this history
+    const upstreamMessages: unknown[] = [
+      {
+        role: "system",
+        content:
+          sources.length > 0
+            ? `${systemPrompt}\n\n${knowledgePrompt(sources)}`
+            : systemPrompt,
+      },
+      // Messages go upstream as-is, so multi-part content (text and
+      // image_url parts) reaches vision models unchanged. `continuation`:
+      // the history ends with a reply cut off at max_tokens to extend.
+      ...(continuation ? continuationMessages(messages) : messages),
+    ];
+    const tools = useTools ? toolSchemas() : [];
+    // "none" makes the model answer with what it has instead of calling more
+    const upstreamBody = (toolChoice: "auto" | "none" = "auto") =>
+      JSON.stringify({
+        ...sampling,
+        messages: upstreamMessages,
+        ...(tools.length > 0 && { tools, tool_choice: toolChoice }),
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+    let answered: {
+      backend: ResolvedBackend;
+      body: ReadableStream<Uint8Array>;
+      release: () => void;
+    } | null = null;
+    let lastFailure: {
+      error: string;
+      status: number;
+      category: FailureCategory;
+    } | null = null;
+    // Labels of backends that were busy or failed before one answered
+    const skipped: string[] = [];
+    let attempts = 0;
 
-    let response: Response;
     try {
-      response = await fetch(`${baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-          "ngrok-skip-browser-warning": "true",
-          "User-Agent": "QwenChatBot/1.0",
-        },
-        signal: upstream.signal,
-        body: JSON.stringify({
-          model: "qwen2.5-coder-14b-instruct",
-          messages: [
+      for (const backend of backends) {
+        const slotKey = `backend:${backend.profileId ?? backend.baseUrl}`;
+        if (!(await limiter.acquireSlot(slotKey, maxConcurrentStreams()))) {
+          skipped.push(backend.label);
+          continue;
+        }
+        let released = false;
+        const release = () => {
+          if (released) return;
+          released = true;
+          limiter.releaseSlot(slotKey).catch(() => {});
+        };
+        releaseSlot = release;
+        metrics.backend = backend.label;
+
+        for (let attempt = 0; ; attempt++) {
+          // Every attempt after the first, here or on an earlier backend
+          if (attempts++ > 0) metrics.retries++;
+          const result = await attemptUpstream(
+            `${backend.baseUrl}/chat/completions`,
             {
-              role: "system",
-              content:
-                "You are a helpful AI assistant powered by Qwen2.5-Coder-14B. You are knowledgeable, concise, and friendly. Format your responses using markdown when appropriate.",
+              method: "POST",
+              headers: upstreamHeaders(backend.apiKey),
+              signal: upstream.signal,
+              body: upstreamBody(),
             },
-            ...messages,
-          ],
-          max_tokens: 2048,
-          temperature: 0.7,
-          stream: true,
-        }),
-      });
-    } catch (fetchErr: unknown) {
-      clearTimeout(upstreamTimeout);
-      const isTimeout =
-        fetchErr instanceof DOMException && fetchErr.name === "AbortError";
-      return new Response(
-        JSON.stringify({
-          error: isTimeout
-            ? "Model server timed out (55 s). Make sure your Kaggle notebook is still running."
-            : `Cannot reach the model server: ${
-                fetchErr instanceof Error ? fetchErr.message : "unknown error"
-              }`,
-        }),
-        { status: 504, headers: { "Content-Type": "application/json" } },
-      );
+          );
+          if (result.ok) {
+            answered = { backend, body: result.body, release };
+            break;
+          }
+          lastFailure = result;
+          if (!result.retryable || attempt >= upstreamRetries()) break;
+          // A backend that hung once likely hangs again; the time left is
+          // better spent on the next one, if there is one
+          if (result.category === "timeout" && backend !== backends.at(-1)) {
+            break;
+          }
+          await sleepUntilAborted(backoffDelay(attempt), upstream.signal);
+        }
+        if (answered) break;
+
+        // Failed or out of retries — hand over to the next backend
+        release();
+        releaseSlot = null;
+        skipped.push(backend.label);
+        // Past the overall deadline, or the user stopped
+        if (upstream.signal.aborted) break;
+      }
     } finally {
       clearTimeout(upstreamTimeout);
     }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-
-      if (errorText.includes("<html") || errorText.includes("ngrok")) {
-        return new Response(
-          JSON.stringify({
-            error:
-              "Ngrok tunnel returned HTML instead of JSON. The tunnel may have expired — restart your Kaggle notebook.",
-          }),
-          { status: 502, headers: { "Content-Type": "application/json" } },
+    if (!answered) {
+      // The user stopped or went away; the abort that ended the attempt
+      // says nothing about the backend
+      if (req.signal.aborted) {
+        metrics.cancel();
+        return jsonError("Request cancelled.", 499);
+      }
+      if (!lastFailure) {
+        metrics.fail("busy");
+        return rateLimitResponse(
+          "The model is busy answering other requests.",
+          5000,
         );
       }
-
-      return new Response(
-        JSON.stringify({
-          error: `API Error (${response.status}): ${errorText.substring(0, 200) || "Connection failed"}`,
-        }),
-        {
-          status: response.status,
-          headers: { "Content-Type": "application/json" },
-        },
-      );
-    }
-
-    // Check if we got HTML back (ngrok warning page on 200)
-    const ct = response.headers.get("content-type") || "";
-    if (ct.includes("text/html")) {
-      return new Response(
-        JSON.stringify({
-          error:
-            "Received HTML from ngrok instead of JSON. Restart your Kaggle notebook to get a fresh tunnel.",
-        }),
-        { status: 502, headers: { "Content-Type": "application/json" } },
-      );
-    }
-
-    const body = response.body;
-    if (!body) {
-      return new Response(
-        JSON.stringify({ error: "No response body from model server." }),
-        { status: 502, headers: { "Content-Type": "application/json" } },
+      metrics.fail(lastFailure.category);
+      return jsonError(
+        backends.length > 1
+          ? `No backend answered (tried ${skipped.join(", ")}). Last error: ${lastFailure.error}`
+          : lastFailure.error,
+        lastFailure.status,
       );
     }
+    const { backend, body, release } = answered;
 
-    // Transform the upstream SSE into a clean text stream
-    const reader = body.getReader();
+    // Transform the upstream SSE into our NDJSON event stream
+    let reader = body.getReader();
     const decoder = new TextDecoder();
+    const encoder = new TextEncoder();
     let buffer = "";
     let streamDone = false;
+    let finished = false;
+    // An error event went out; the request counts as failed
+    let failed = false;
+    // What the current model round produced; a round that ends in tool
+    // calls is followed by another one with the results
+    let roundContent = "";
+    let roundFinish: string | null = null;
+    let pendingCalls: PendingToolCall[] = [];
+    let toolRounds = 0;
+
+    const send = (
+      controller: ReadableStreamDefaultController,
+      event: ChatStreamEvent,
+    ) => {
+      if (event.type === "finish" || event.type === "error") finished = true;
+      if (event.type === "error") failed = true;
+      controller.enqueue(encoder.encode(encodeEvent(event)));
+    };
+
+    const handle = (
+      controller: ReadableStreamDefaultController,
+      event: UpstreamEvent,
+    ) => {
+      if (event.type === "delta" || event.type === "tool_delta") {
+        metrics.token();
+      } else if (event.type === "usage") {
+        metrics.usage(event.promptTokens, event.completionTokens);
+      }
+      if (event.type === "tool_delta") {
+        if (tools.length === 0) return;
+        const call = (pendingCalls[event.index] ??= {
+          id: "",
+          name: "",
+          arguments: "",
+        });
+        if (event.id) call.id = event.id;
+        if (event.name) call.name = event.name;
+        if (event.arguments) call.arguments += event.arguments;
+      } else if (event.type === "finish") {
+        // Held back until we know whether tool calls follow
+        roundFinish = event.reason;
+      } else {
+        if (event.type === "delta") roundContent += event.content;
+        send(controller, event);
+      }
+    };
+
+    // `sawDone`: upstream sent [DONE], so a missing finish_reason is benign
+    const end = (
+      controller: ReadableStreamDefaultController,
+      sawDone: boolean,
+    ) => {
+      if (!finished) {
+        send(
+          controller,
+          sawDone
+            ? { type: "finish", reason: "stop" }
+            : {
+                type: "error",
+                message:
+                  "The model server closed the stream before finishing. Your Kaggle notebook may have restarted.",
+              },
+        );
+      }
+      if (failed) metrics.fail("stream");
+      else metrics.finish();
+      streamDone = true;
+      release();
+      controller.close();
+    };
+
+    // Re-ask the backend that answered, with the same retry budget
+    const requestRound = async (toolChoice: "auto" | "none") => {
+      const roundTimeout = setTimeout(() => upstream.abort(), 55000);
+      try {
+        for (let attempt = 0; ; attempt++) {
+          const result = await attemptUpstream(
+            `${backend.baseUrl}/chat/completions`,
+            {
+              method: "POST",
+              headers: upstreamHeaders(backend.apiKey),
+              signal: upstream.signal,
+              body: upstreamBody(toolChoice),
+            },
+          );
+          if (result.ok || !result.retryable) return result;
+          if (attempt >= upstreamRetries()) return result;
+          metrics.retries++;
+          await sleepUntilAborted(backoffDelay(attempt), upstream.signal);
+        }
+      } finally {
+        clearTimeout(roundTimeout);
+      }
+    };
+
+    /**
+     * Run the calls the model asked for and start the next round. Returns
+     * false when the stream should end instead.
+     */
+    const runToolRound = async (
+      controller: ReadableStreamDefaultController,
+    ): Promise<boolean> => {
+      const calls = pendingCalls
+        .filter(Boolean)
+        .map((c, i) => ({ ...c, id: c.id || `call_${toolRounds}_${i}` }));
+      upstreamMessages.push({
+        role: "assistant",
+        content: roundContent || null,
+        tool_calls: calls.map((c) => ({
+          id: c.id,
+          type: "function",
+          function: { name: c.name, arguments: c.arguments },
+        })),
+      });
+      for (const call of calls) {
+        send(controller, { type: "tool_call", ...call });
+        const outcome = await runTool(call.name, call.arguments);
+        if (streamDone) return true;
+        send(controller, { type: "tool_result", id: call.id, ...outcome });
+        upstreamMessages.push({
+          role: "tool",
+          tool_call_id: call.id,
+          content: outcome.content,
+        });
+      }
+      toolRounds++;
+
+      const next = await requestRound(
+        toolRounds >= MAX_TOOL_ROUNDS ? "none" : "auto",
+      );
+      if (streamDone) {
+        if (next.ok) next.body.cancel().catch(() => {});
+        return true;
+      }
+      if (!next.ok) {
+        metrics.fail(next.category);
+        send(controller, {
+          type: "error",
+          message: `The model server failed after a tool call: ${next.error}`,
+        });
+        return false;
+      }
+      reader = next.body.getReader();
+      buffer = "";
+      roundContent = "";
+      roundFinish = null;
+      pendingCalls = [];
+      return true;
+    };
+
+    const endRound = async (
+      controller: ReadableStreamDefaultController,
+      sawDone: boolean,
+    ) => {
+      if (
+        !finished &&
+        pendingCalls.length > 0 &&
+        toolRounds < MAX_TOOL_ROUNDS
+      ) {
+        if (await runToolRound(controller)) return;
+      } else if (!finished && pendingCalls.length > 0 && !roundContent.trim()) {
+        // The last round asked for tool_choice "none"; a server that ignores
+        // it leaves nothing to show
+        send(controller, {
+          type: "error",
+          message: `The model kept calling tools after ${MAX_TOOL_ROUNDS} rounds and never answered. Try asking more specifically, or turn tools off for this chat.`,
+        });
+      } else if (!finished && roundFinish) {
+        send(controller, { type: "finish", reason: roundFinish });
+      }
+      end(controller, sawDone);
+    };
 
     const stream = new ReadableStream({
-      async pull(controller) {
-        if (streamDone) {
-          controller.close();
-          return;
+      start(controller) {
+        send(controller, {
+          type: "meta",
+          model: sampling.model,
+          backend: backend.label,
+          ...(skipped.length > 0 && { skipped }),
+        });
+        if (sources.length > 0) {
+          send(controller, { type: "sources", chunks: sources });
         }
+      },
+      async pull(controller) {
+        if (streamDone) return;
 
         try {
           const { done, value } = await reader.read();
 
           if (done) {
             // Flush any remaining buffer
-            if (buffer.trim()) {
-              processBuffer(buffer, controller);
+            for (const line of buffer.split("\n")) {
+              const events = translateSseLine(line);
+              if (events !== "done")
+                events.forEach((e) => handle(controller, e));
             }
-            controller.close();
+            await endRound(controller, false);
             return;
           }
 
@@ -146,47 +478,47 @@ export async function POST(req: NextRequest) {
           buffer = lines.pop() || "";
 
           for (const line of lines) {
-            const trimmed = line.trim();
-            if (!trimmed || !trimmed.startsWith("data: ")) continue;
-
-            const data = trimmed.slice(6);
-            if (data === "[DONE]") {
+            const events = translateSseLine(line);
+            if (events === "done") {
               // Model finished — close stream immediately instead of
               // waiting for the upstream HTTP connection to close
               // (ngrok / vLLM often keep the connection alive).
-              streamDone = true;
               reader.cancel().catch(() => {});
-              controller.close();
+              await endRound(controller, true);
               return;
             }
-
-            try {
-              const parsed = JSON.parse(data);
-              const token =
-                parsed.choices?.[0]?.delta?.content ||
-                parsed.choices?.[0]?.text ||
-                "";
-              if (token) {
-                controller.enqueue(new TextEncoder().encode(token));
-              }
-            } catch {
-              // Skip malformed JSON
-            }
+            events.forEach((e) => handle(controller, e));
           }
         } catch (err) {
-          if (!streamDone) {
-            controller.error(err);
-          }
+          if (streamDone) return;
+          // Report it in-band: the client has already started rendering
+          send(controller, {
+            type: "error",
+            message: `Lost the connection to the model server: ${
+              err instanceof Error ? err.message : "unknown error"
+            }`,
+          });
+          metrics.fail("stream");
+          streamDone = true;
+          release();
+          controller.close();
         }
       },
       cancel() {
-        reader.cancel();
+        // Client disconnected — stop reading so the model server can
+        // stop generating instead of streaming into the void.
+        metrics.cancel();
+        streamDone = true;
+        release();
+        reader.cancel().catch(() => {});
+        upstream.abort();
       },
     });
 
+    handedToStream = true;
     return new Response(stream, {
       headers: {
-        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Type": CHAT_STREAM_CONTENT_TYPE,
         "Cache-Control": "no-cache",
         "Transfer-Encoding": "chunked",
       },
@@ -194,6 +526,7 @@ export async function POST(req: NextRequest) {
   } catch (error) {
     const message =
       error instanceof Error ? error.message : "Unknown error occurred";
+    trace?.fail("unreachable");
 
     return new Response(
       JSON.stringify({
@@ -201,28 +534,76 @@ export async function POST(req: NextRequest) {
       }),
       { status: 503, headers: { "Content-Type": "application/json" } },
     );
+  } finally {
+    if (!handedToStream) releaseSlot?.();
   }
 }
 
-function processBuffer(
-  buffer: string,
-  controller: ReadableStreamDefaultController,
-) {
-  const lines = buffer.split("\n");
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || !trimmed.startsWith("data: ")) continue;
-    const data = trimmed.slice(6);
-    if (data === "[DONE]") continue;
-    try {
-      const parsed = JSON.parse(data);
-      const token =
-        parsed.choices?.[0]?.delta?.content || parsed.choices?.[0]?.text || "";
-      if (token) {
-        controller.enqueue(new TextEncoder().encode(token));
-      }
-    } catch {
-      // skip
-    }
+/**
+ * Translate one line of upstream SSE into stream events, or "done" for the
+ * [DONE] sentinel. Anything that isn't a data line is ignored.
+ */
+function translateSseLine(line: string): UpstreamEvent[] | "done" {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("data: ")) return [];
+  const data = trimmed.slice(6);
+  if (data === "[DONE]") return "done";
+
+  let parsed;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return []; // Skip malformed JSON
   }
+
+  if (parsed.error) {
+    return [
+      {
+        type: "error",
+        message: `Model server error: ${
+          parsed.error.message || JSON.stringify(parsed.error).slice(0, 200)
+        }`,
+      },
+    ];
+  }
+
+  const events: UpstreamEvent[] = [];
+  const choice = parsed.choices?.[0];
+  const token = choice?.delta?.content || choice?.text || "";
+  if (token) events.push({ type: "delta", content: token });
+  for (const call of choice?.delta?.tool_calls ?? []) {
+    events.push({
+      type: "tool_delta",
+      index: call.index ?? 0,
+      id: call.id,
+      name: call.function?.name,
+      arguments: call.function?.arguments,
+    });
+  }
+  if (parsed.usage) {
+    events.push({
+      type: "usage",
+      promptTokens: parsed.usage.prompt_tokens ?? 0,
+      completionTokens: parsed.usage.completion_tokens ?? 0,
+      totalTokens: parsed.usage.total_tokens ?? 0,
+    });
+  }
+  if (choice?.finish_reason) {
+    events.push({ type: "finish", reason: choice.finish_reason });
+  }
+  return events;
+}
+
+/** The text of the latest user message, to pick knowledge excerpts with. */
+function lastUserText(messages: unknown): string {
+  if (!Array.isArray(messages)) return "";
+  const content = [...messages]
+    .reverse()
+    .find((m) => m?.role === "user")?.content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((part) => part?.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n");
 }
@@ -0,0 +1,103 @@
+import { NextRequest } from "next/server";
+import {
+  backendRequestFromHeaders,
+  resolveBackend,
+} from "@/lib/backendProfiles";
+import { HealthResult } from "@/lib/health";
+import {
+  REDIRECT_ERROR,
+  isHtmlResponse,
+  isNgrokHtml,
+  isRedirect,
+  jsonError,
+  upstreamHeaders,
+} from "@/lib/upstream";
+
+const HEALTH_TIMEOUT_MS = 8000;
+
+// GET /api/health — ping the model server and classify the outcome the same
+// way /api/chat tells its failure modes apart.
+export async function GET(req: NextRequest) {
+  const resolved = resolveBackend(backendRequestFromHeaders(req.headers));
+  if (!resolved.ok) return jsonError(resolved.error, resolved.status);
+  const { baseUrl, apiKey } = resolved.backend;
+
+  const result = await probe(baseUrl, apiKey);
+  return Response.json(result, { headers: { "Cache-Control": "no-store" } });
+}
+
+async function probe(baseUrl: string, apiKey: string): Promise<HealthResult> {
+  const upstream = new AbortController();
+  const upstreamTimeout = setTimeout(() => upstream.abort(), HEALTH_TIMEOUT_MS);
+  const started = Date.now();
+
+  let response: Response;
+  try {
+    // /v1/models is cheap and, unlike /health, sits behind the API key
+    response = await fetch(`${baseUrl}/models`, {
+      headers: upstreamHeaders(apiKey),
+      redirect: "manual",
+      signal: upstream.signal,
+    });
+  } catch (fetchErr: unknown) {
+    const isTimeout =
+      fetchErr instanceof DOMException && fetchErr.name === "AbortError";
+    return isTimeout
+      ? {
+          state: "timeout",
+          latencyMs: null,
+          message: `Model server did not answer within ${HEALTH_TIMEOUT_MS / 1000} s. Make sure your Kaggle notebook is still running.`,
+        }
+      : {
+          state: "unreachable",
+          latencyMs: null,
+          message: `Cannot reach the model server: ${
+            fetchErr instanceof Error ? fetchErr.message : "unknown error"
+          }`,
+        };
+  } finally {
+    clearTimeout(upstreamTimeout);
+  }
+  const latencyMs = Date.now() - started;
+
+  if (isRedirect(response)) {
+    response.body?.cancel().catch(() => {});
+    return { state: "unreachable", latencyMs, message: REDIRECT_ERROR };
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    if (response.status === 401 || response.status === 403) {
+      return {
+        state: "auth_failed",
+        latencyMs,
+        message:
+          "The model server rejected the API key. Check it matches API_KEY in your notebook.",
+      };
+    }
+    if (isNgrokHtml(errorText)) {
+      return {
+        state: "tunnel_expired",
+        latencyMs,
+        message:
+          "Ngrok tunnel returned HTML instead of JSON. The tunnel may have expired — restart your Kaggle notebook.",
+      };
+    }
+    return {
+      state: "unreachable",
+      latencyMs,
+      message: `API Error (${response.status}): ${errorText.substring(0, 200) || "Connection failed"}`,
+    };
+  }
+
+  if (isHtmlResponse(response)) {
+    return {
+      state: "tunnel_expired",
+      latencyMs,
+      message:
+        "Received HTML from ngrok instead of JSON. Restart your Kaggle notebook to get a fresh tunnel.",
+    };
+  }
+
+  return { state: "reachable", latencyMs, message: "Model server is up." };
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { getKnowledgeStore } from "@/lib/knowledgeStore";
+import { tokenMatches } from "@/lib/shareStore";
+import { jsonError } from "@/lib/upstream";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/knowledge/:id — remove a knowledge base and its index; needs
+// the token returned on upload
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const store = getKnowledgeStore();
+  const base = await store.get(id);
+  if (!base) {
+    return jsonError("This knowledge base doesn't exist.", 404);
+  }
+
+  const token = req.headers.get("x-delete-token");
+  if (!token || !tokenMatches(token, base)) {
+    return jsonError(
+      "Only whoever uploaded a knowledge base can delete it.",
+      403,
+    );
+  }
+  await store.delete(id);
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,151 @@
+import { NextRequest } from "next/server";
+import {
+  KnowledgeBaseInfo,
+  UPLOAD_LIMITS,
+  Upload,
+  collectTextFiles,
+  getKnowledgeStore,
+  indexFiles,
+  knowledgeBaseInfo,
+  newKnowledgeId,
+} from "@/lib/knowledgeStore";
+import {
+  bucketConfig,
+  clientKey,
+  getRateLimitStore,
+  rateLimitResponse,
+} from "@/lib/rateLimit";
+import { hashToken, newDeleteToken } from "@/lib/shareStore";
+import { jsonError } from "@/lib/upstream";
+
+const MAX_NAME_LENGTH = 100;
+const MAX_LOOKUP_IDS = 100;
+// Part headers and boundaries on top of the files themselves
+const MAX_FORM_OVERHEAD = 1024 * 1024;
+
+// Content-Length can be missing (chunked uploads), so the body is counted
+// as it arrives instead of trusting it; null once it runs over `limit`
+async function readBody(
+  body: ReadableStream<Uint8Array> | null,
+  limit: number,
+): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!body) return new Uint8Array();
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+// GET /api/knowledge?ids=a,b — which of the given knowledge bases still
+// exist. There's no listing of every base; the browser that uploaded one
+// remembers its id.
+export async function GET(req: NextRequest) {
+  const ids = (req.nextUrl.searchParams.get("ids") || "")
+    .split(",")
+    .filter(Boolean)
+    .slice(0, MAX_LOOKUP_IDS);
+  const store = getKnowledgeStore();
+  const bases: KnowledgeBaseInfo[] = [];
+  for (const id of ids) {
+    const base = await store.get(id);
+    if (base) bases.push(knowledgeBaseInfo(base));
+  }
+  return Response.json({ bases });
+}
+
+// POST /api/knowledge — multipart form with a `name` and one or more `files`
+// (source files or zips of them); chunks and indexes them for retrieval.
+// Returns a delete token, like POST /api/share.
+export async function POST(req: NextRequest) {
+  const quota = await getRateLimitStore().take(
+    `knowledge:${clientKey(req.headers)}`,
+    bucketConfig(),
+  );
+  if (!quota.allowed) {
+    return rateLimitResponse(
+      "Too many uploads — try again shortly.",
+      quota.retryAfterMs,
+    );
+  }
+
+  const tooLarge = `Uploads are limited to ${UPLOAD_LIMITS.maxTotalBytes / 1024 / 1024} MB.`;
+  const maxBody = UPLOAD_LIMITS.maxTotalBytes + MAX_FORM_OVERHEAD;
+  if (Number(req.headers.get("content-length")) > maxBody) {
+    return jsonError(tooLarge, 413);
+  }
+  const raw = await readBody(req.body, maxBody);
+  if (!raw) return jsonError(tooLarge, 413);
+  let form: FormData;
+  try {
+    form = await new Response(raw, {
+      headers: { "Content-Type": req.headers.get("content-type") || "" },
+    }).formData();
+  } catch {
+    return jsonError("Expected a multipart form upload.", 400);
+  }
+
+  const uploads: Upload[] = [];
+  let total = 0;
+  for (const entry of form.getAll("files")) {
+    if (typeof entry === "string") continue;
+    total += entry.size;
+    if (total > UPLOAD_LIMITS.maxTotalBytes) return jsonError(tooLarge, 413);
+    uploads.push({
+      // Folder uploads send the relative path as the file name
+      name: entry.name,
+      data: Buffer.from(await entry.arrayBuffer()),
+    });
+  }
+
+  let collected;
+  try {
+    collected = collectTextFiles(uploads);
+  } catch (err) {
+    return jsonError(
+      `Couldn't read the upload: ${err instanceof Error ? err.message : "unknown error"}`,
+      400,
+    );
+  }
+  const { files, skipped } = collected;
+  if (files.length === 0) {
+    return jsonError("No text files found in the upload.", 400);
+  }
+
+  const index = indexFiles(files);
+  const rawName = form.get("name");
+  const base = {
+    id: newKnowledgeId(),
+    name:
+      typeof rawName === "string" && rawName.trim()
+        ? rawName.trim().slice(0, MAX_NAME_LENGTH)
+        : files[0].path.split("/")[0],
+    files: files.length,
+    chunks: index.chunks.length,
+    createdAt: Date.now(),
+  };
+  const deleteToken = newDeleteToken();
+  try {
+    await getKnowledgeStore().put({
+      ...base,
+      index,
+      deleteTokenHash: hashToken(deleteToken),
+    });
+  } catch (err) {
+    return jsonError(
+      `Couldn't store the knowledge base: ${err instanceof Error ? err.message : "unknown error"}`,
+      500,
+    );
+  }
+
+  return Response.json({ ...base, skipped, deleteToken }, { status: 201 });
+}
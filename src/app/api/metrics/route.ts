@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import {
+  buildReport,
+  getMetricsSink,
+  metricsAuthorized,
+  toPrometheus,
+} from "@/lib/metricsStore";
+import { jsonError } from "@/lib/upstream";
+
+// GET /api/metrics — request counts, latency, throughput and errors as JSON,
+// or in the Prometheus text format with ?format=prometheus (or when the
+// scraper asks for text/plain).
+export async function GET(req: NextRequest) {
+  if (!metricsAuthorized(req.headers)) {
+    return jsonError("A valid metrics token is required.", 401);
+  }
+  const report = buildReport(await getMetricsSink().snapshot());
+
+  const format = req.nextUrl.searchParams.get("format");
+  const accept = req.headers.get("accept") || "";
+  if (
+    format === "prometheus" ||
+    (!format && accept.includes("text/plain") && !accept.includes("json"))
+  ) {
+    return new Response(toPrometheus(report), {
+      headers: {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+  return Response.json(report, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,85 @@
+import { NextRequest } from "next/server";
+import {
+  backendRequestFromHeaders,
+  resolveBackend,
+} from "@/lib/backendProfiles";
+import {
+  REDIRECT_ERROR,
+  isHtmlResponse,
+  isNgrokHtml,
+  isRedirect,
+  jsonError,
+  upstreamHeaders,
+} from "@/lib/upstream";
+
+// GET /api/models — list the models the configured backend actually serves.
+// The backend selection travels in headers so keys stay out of access logs.
+export async function GET(req: NextRequest) {
+  const resolved = resolveBackend(backendRequestFromHeaders(req.headers));
+  if (!resolved.ok) return jsonError(resolved.error, resolved.status);
+  const { baseUrl, apiKey } = resolved.backend;
+
+  const upstream = new AbortController();
+  const upstreamTimeout = setTimeout(() => upstream.abort(), 10000);
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/models`, {
+      headers: upstreamHeaders(apiKey),
+      redirect: "manual",
+      signal: upstream.signal,
+    });
+  } catch (fetchErr: unknown) {
+    const isTimeout =
+      fetchErr instanceof DOMException && fetchErr.name === "AbortError";
+    return jsonError(
+      isTimeout
+        ? "Model server timed out (10 s). Make sure your Kaggle notebook is still running."
+        : `Cannot reach the model server: ${
+            fetchErr instanceof Error ? fetchErr.message : "unknown error"
+          }`,
+      504,
+    );
+  } finally {
+    clearTimeout(upstreamTimeout);
+  }
+
+  if (isRedirect(response)) {
+    response.body?.cancel().catch(() => {});
+    return jsonError(REDIRECT_ERROR, 502);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    if (isNgrokHtml(errorText)) {
+      return jsonError(
+        "Ngrok tunnel returned HTML instead of JSON. The tunnel may have expired — restart your Kaggle notebook.",
+        502,
+      );
+    }
+    return jsonError(
+      `API Error (${response.status}): ${errorText.substring(0, 200) || "Connection failed"}`,
+      response.status,
+    );
+  }
+
+  if (isHtmlResponse(response)) {
+    return jsonError(
+      "Received HTML from ngrok instead of JSON. Restart your Kaggle notebook to get a fresh tunnel.",
+      502,
+    );
+  }
+
+  try {
+    const data = await response.json();
+    const models = (Array.isArray(data?.data) ? data.data : [])
+      .filter((m: { id?: unknown }) => typeof m?.id === "string")
+      .map((m: { id: string; owned_by?: string }) => ({
+        id: m.id,
+        ownedBy: m.owned_by || null,
+      }));
+    return Response.json({ models });
+  } catch {
+    return jsonError("Model server returned an invalid model list.", 502);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import { getShareStore, publicShare, tokenMatches } from "@/lib/shareStore";
+import { jsonError } from "@/lib/upstream";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/share/:id — the snapshot as JSON (the /share/:id page renders it)
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const record = await getShareStore().get(id);
+  if (!record) {
+    return jsonError("This share link doesn't exist or has expired.", 404);
+  }
+  return Response.json(publicShare(record));
+}
+
+// DELETE /api/share/:id — revoke a link; needs the token returned on creation
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const store = getShareStore();
+  const record = await store.get(id);
+  if (!record) {
+    return jsonError("This share link doesn't exist or has expired.", 404);
+  }
+
+  const token = req.headers.get("x-delete-token");
+  if (!token || !tokenMatches(token, record)) {
+    return jsonError("Only the creator of a share link can delete it.", 403);
+  }
+  await store.delete(id);
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,91 @@
+import { NextRequest } from "next/server";
+import {
+  bucketConfig,
+  clientKey,
+  getRateLimitStore,
+  rateLimitResponse,
+} from "@/lib/rateLimit";
+import {
+  getShareStore,
+  hashToken,
+  newDeleteToken,
+  newShareId,
+  snapshotMessages,
+} from "@/lib/shareStore";
+import { SHARE_EXPIRY_OPTIONS } from "@/lib/shares";
+import { jsonError } from "@/lib/upstream";
+
+// Images ride along as data URLs; stay under typical serverless body limits
+const MAX_SHARE_BYTES = 4 * 1024 * 1024;
+const MAX_TITLE_LENGTH = 200;
+
+// POST /api/share — store a read-only snapshot of a conversation. Only the
+// messages (role, content, attachments, model/usage metadata), title and
+// model name are kept; backend URLs, labels and keys never are.
+export async function POST(req: NextRequest) {
+  const quota = await getRateLimitStore().take(
+    `share:${clientKey(req.headers)}`,
+    bucketConfig(),
+  );
+  if (!quota.allowed) {
+    return rateLimitResponse(
+      "Too many share links — try again shortly.",
+      quota.retryAfterMs,
+    );
+  }
+
+  const raw = await req.text();
+  if (raw.length > MAX_SHARE_BYTES) {
+    return jsonError(
+      "This conversation is too large to share (attachments included).",
+      413,
+    );
+  }
+  let payload;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    return jsonError("Invalid JSON body.", 400);
+  }
+
+  const messages = snapshotMessages(payload?.messages);
+  if (!messages || messages.length === 0) {
+    return jsonError(
+      "Nothing to share: the conversation has no valid messages.",
+      400,
+    );
+  }
+  const expiresIn = payload.expiresIn ?? 0;
+  if (!SHARE_EXPIRY_OPTIONS.some((o) => o.seconds === expiresIn)) {
+    return jsonError(
+      `expiresIn must be one of ${SHARE_EXPIRY_OPTIONS.map((o) => o.seconds).join(", ")}`,
+      400,
+    );
+  }
+
+  const now = Date.now();
+  const id = newShareId();
+  const deleteToken = newDeleteToken();
+  const expiresAt = expiresIn ? now + expiresIn * 1000 : null;
+  try {
+    await getShareStore().put({
+      id,
+      title:
+        typeof payload.title === "string" && payload.title.trim()
+          ? payload.title.trim().slice(0, MAX_TITLE_LENGTH)
+          : "Shared conversation",
+      model: typeof payload.model === "string" ? payload.model : "",
+      messages,
+      createdAt: now,
+      expiresAt,
+      deleteTokenHash: hashToken(deleteToken),
+    });
+  } catch (err) {
+    return jsonError(
+      `Couldn't store the share: ${err instanceof Error ? err.message : "unknown error"}`,
+      500,
+    );
+  }
+
+  return Response.json({ id, deleteToken, expiresAt }, { status: 201 });
+}
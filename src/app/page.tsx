@@ -5,58 +5,299 @@ import {
   useRef,
   useEffect,
   useCallback,
+  Fragment,
   KeyboardEvent,
   FormEvent,
+  ClipboardEvent,
+  DragEvent,
 } from "react";
+import AdvancedSettings from "@/components/AdvancedSettings";
+import AttachmentList from "@/components/AttachmentList";
+import BranchSwitcher from "@/components/BranchSwitcher";
+import CommandMenu from "@/components/CommandMenu";
+import { SendToModelContext } from "@/components/CodeBlock";
+import CompareDialog from "@/components/CompareDialog";
+import ComparisonView from "@/components/ComparisonView";
+import ConversationSidebar from "@/components/ConversationSidebar";
+import ExportMenu from "@/components/ExportMenu";
+import KnowledgeDialog from "@/components/KnowledgeDialog";
+import Markdown from "@/components/Markdown";
+import PresetsDialog from "@/components/PresetsDialog";
+import QueueList from "@/components/QueueList";
+import ShareDialog from "@/components/ShareDialog";
+import SourceList from "@/components/SourceList";
+import ToolSteps from "@/components/ToolSteps";
+import {
+  Attachment,
+  MAX_ATTACHMENTS,
+  MAX_MESSAGE_IMAGE_BYTES,
+  PASTE_AS_FILE_LINES,
+  formatSize,
+  imageBytes,
+  readAttachment,
+  supportsVision,
+  textAttachment,
+  toApiContent,
+} from "@/lib/attachments";
+import {
+  BackendOptions,
+  BackendSelection,
+  NO_BACKEND,
+  NO_BACKEND_OPTIONS,
+  backendBody,
+  backendKey,
+  fetchBackendOptions,
+  isBackendConfigured,
+  loadBackendSelection,
+  reconcileBackend,
+  saveBackendSelection,
+} from "@/lib/backends";
+import { ParamError, validateChatParams } from "@/lib/chatParams";
+import {
+  MAX_RATE_LIMIT_RETRIES,
+  readChatStream,
+  retryAfterMs,
+  sleep,
+} from "@/lib/chatStream";
+import {
+  comparisonContent,
+  isComparing,
+  streamComparison,
+  voteFor,
+} from "@/lib/compare";
+import { mergeContinuation } from "@/lib/continuation";
+import {
+  BranchedPath,
+  branchPosition,
+  dropEmptyBranch,
+  forkAt,
+  switchBranch,
+} from "@/lib/branches";
+import {
+  CommandContext,
+  completeCommand,
+  isCommand,
+  runCommand,
+} from "@/lib/commands";
+import {
+  CompareTarget,
+  Conversation,
+  DEFAULT_MODEL_SETTINGS,
+  Message,
+  MessageMeta,
+  ModelSettings,
+  ToolStep,
+  createConversation,
+  deriveTitle,
+  loadActiveId,
+  loadConversations,
+  saveActiveId,
+  saveConversations,
+  toChatParams,
+} from "@/lib/conversations";
+import { HEALTH_LABELS, HealthResult, checkHealth } from "@/lib/health";
+import { ModelInfo, displayModelName, fetchModels } from "@/lib/models";
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_PRESET_ID,
+  Preset,
+  findPreset,
+  loadCustomPresets,
+  saveCustomPresets,
+} from "@/lib/presets";
+import {
+  QueueMode,
+  QueuedRequest,
+  loadQueueMode,
+  mergePrompts,
+  newRequestId,
+  saveQueueMode,
+} from "@/lib/queue";
+import {
+  CONTEXT_SIZE_LIMITS,
+  attachmentTokens,
+  estimateTokens,
+  planContext,
+} from "@/lib/tokens";
+import { parseTranscript } from "@/lib/transcripts";
+
+const HEALTH_POLL_MS = 30000;
+const CUSTOM_BACKEND = "__custom__";
 
-interface Message {
-  role: "user" | "assistant";
-  content: string;
+function trimBackend(backend: BackendSelection): BackendSelection {
+  const fallbacks = backend.fallbacks.filter((id) => id !== backend.profileId);
+  return backend.profileId
+    ? { ...NO_BACKEND, profileId: backend.profileId, fallbacks }
+    : {
+        profileId: "",
+        apiUrl: backend.apiUrl.trim(),
+        apiKey: backend.apiKey.trim(),
+        fallbacks,
+      };
 }
 
 export default function ChatPage() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>(
+    [],
+  );
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
-  const [apiUrl, setApiUrl] = useState("");
-  const [apiKey, setApiKey] = useState("");
-  const [tempApiUrl, setTempApiUrl] = useState("");
-  const [tempApiKey, setTempApiKey] = useState("");
+  const [backend, setBackend] = useState<BackendSelection>(NO_BACKEND);
+  const [tempBackend, setTempBackend] = useState<BackendSelection>(NO_BACKEND);
+  const [backendOptions, setBackendOptions] =
+    useState<BackendOptions>(NO_BACKEND_OPTIONS);
+  const [tempSettings, setTempSettings] = useState<ModelSettings>(
+    DEFAULT_MODEL_SETTINGS,
+  );
+  const [settingsErrors, setSettingsErrors] = useState<ParamError[]>([]);
+  // What the configured backend reports via /v1/models
+  const [served, setServed] = useState<{
+    backend: string;
+    models: ModelInfo[];
+    error: string | null;
+  } | null>(null);
+  const [health, setHealth] = useState<{
+    backend: string;
+    result: HealthResult;
+  } | null>(null);
+  const [connectionTest, setConnectionTest] = useState<HealthResult | null>(
+    null,
+  );
+  const [testingConnection, setTestingConnection] = useState(false);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [storageFull, setStorageFull] = useState(false);
+  const [modalModels, setModalModels] = useState<ModelInfo[]>([]);
+  const [modalModelsLoading, setModalModelsLoading] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [showSidebar, setShowSidebar] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showKnowledge, setShowKnowledge] = useState(false);
+  const [showPresets, setShowPresets] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [customPresets, setCustomPresets] = useState<Preset[]>([]);
+  const [editingIdx, setEditingIdx] = useState<number | null>(null);
+  const [editText, setEditText] = useState("");
+  const [queue, setQueue] = useState<QueuedRequest[]>([]);
+  const [queueMode, setQueueMode] = useState<QueueMode>("sequential");
+  const [commandIndex, setCommandIndex] = useState(0);
+  const [commandMenuClosed, setCommandMenuClosed] = useState(false);
+  const [showCommandHelp, setShowCommandHelp] = useState(false);
+  const [commandNotice, setCommandNotice] = useState<{
+    text: string;
+    error?: boolean;
+  } | null>(null);
   const chatAreaRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Refs to avoid stale closures
-  const apiUrlRef = useRef(apiUrl);
-  const apiKeyRef = useRef(apiKey);
+  const backendRef = useRef(backend);
   const messagesRef = useRef<Message[]>([]);
-  const queueRef = useRef<string[]>([]);
+  const activeIdRef = useRef<string | null>(null);
+  const conversationsRef = useRef<Conversation[]>([]);
+  const queueRef = useRef<QueuedRequest[]>([]);
+  const queueModeRef = useRef<QueueMode>("sequential");
   const processingRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Keep refs in sync with state
   useEffect(() => {
-    apiUrlRef.current = apiUrl;
-  }, [apiUrl]);
+    backendRef.current = backend;
+  }, [backend]);
   useEffect(() => {
-    apiKeyRef.current = apiKey;
-  }, [apiKey]);
+    queueModeRef.current = queueMode;
+  }, [queueMode]);
   useEffect(() => {
     messagesRef.current = messages;
   }, [messages]);
-
   useEffect(() => {
-    const savedUrl = localStorage.getItem("kaggle-api-url");
-    const savedKey = localStorage.getItem("kaggle-api-key");
-    if (savedUrl) {
-      setApiUrl(savedUrl);
-      setTempApiUrl(savedUrl);
-    }
-    if (savedKey) {
-      setApiKey(savedKey);
-      setTempApiKey(savedKey);
+    activeIdRef.current = activeId;
+    if (activeId) saveActiveId(activeId);
+  }, [activeId]);
+  useEffect(() => {
+    conversationsRef.current = conversations;
+    // Skip the empty first render so we don't wipe storage before it loads
+    if (conversations.length > 0) {
+      setStorageFull(!saveConversations(conversations));
     }
+  }, [conversations]);
+
+  useEffect(() => {
+    // Only trust the saved backend once the server confirms it still exists
+    const saved = loadBackendSelection();
+    fetchBackendOptions()
+      .catch(() => NO_BACKEND_OPTIONS)
+      .then((options) => {
+        const selection = reconcileBackend(saved, options);
+        setBackendOptions(options);
+        setBackend(selection);
+        if (isBackendConfigured(selection)) saveBackendSelection(selection);
+      });
+
+    // Restore the conversation we were in last time, or start a fresh one
+    let stored = loadConversations();
+    if (stored.length === 0) stored = [createConversation()];
+    const lastId = loadActiveId();
+    const active = stored.find((c) => c.id === lastId) || stored[0];
+    setConversations(stored);
+    setActiveId(active.id);
+    messagesRef.current = active.messages;
+    setMessages(active.messages);
+    setCustomPresets(loadCustomPresets());
+    setQueueMode(loadQueueMode());
   }, []);
 
+  // Results are tagged with the backend they were fetched for, so a stale
+  // answer for a previous backend is simply ignored at render time.
+  const configured = isBackendConfigured(backend);
+  const currentBackend = backendKey(backend);
+  const healthResult =
+    configured && health?.backend === currentBackend ? health.result : null;
+  const backendUp = healthResult?.state === "reachable";
+
+  // Kaggle sessions die silently — poll so the status dot stays honest
+  useEffect(() => {
+    if (!isBackendConfigured(backend)) return;
+    const controller = new AbortController();
+    const poll = () => {
+      if (document.hidden) return;
+      checkHealth(backend, controller.signal)
+        .then((result) => setHealth({ backend: backendKey(backend), result }))
+        .catch(() => {});
+    };
+    poll();
+    const interval = setInterval(poll, HEALTH_POLL_MS);
+    document.addEventListener("visibilitychange", poll);
+    return () => {
+      controller.abort();
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", poll);
+    };
+  }, [backend]);
+
+  useEffect(() => {
+    if (!isBackendConfigured(backend) || !backendUp) return;
+    const controller = new AbortController();
+    fetchModels(backend, controller.signal)
+      .then((models) =>
+        setServed({ backend: backendKey(backend), models, error: null }),
+      )
+      .catch((err: Error) => {
+        if (err.name === "AbortError") return;
+        setServed({
+          backend: backendKey(backend),
+          models: [],
+          error: err.message,
+        });
+      });
+    return () => controller.abort();
+  }, [backend, backendUp]);
+
   const scrollToBottom = () => {
     if (chatAreaRef.current) {
       chatAreaRef.current.scrollTop = chatAreaRef.current.scrollHeight;
@@ -77,28 +318,222 @@ export default function ChatPage() {
     if (textareaRef.current) {
       textareaRef.current.style.height = "auto";
       textareaRef.current.style.height =
-        Math.min(textareaRef.current.scrollHeight, 120) + "px";
+        Math.min(textareaRef.current.scrollHeight, 320) + "px";
     }
   }, [input]);
 
+  const openSettings = () => {
+    setTempBackend(backendRef.current);
+    setTempSettings(
+      conversationsRef.current.find((c) => c.id === activeIdRef.current)
+        ?.settings || DEFAULT_MODEL_SETTINGS,
+    );
+    setSettingsErrors([]);
+    setConnectionTest(null);
+    setShowSettings(true);
+    refreshModalModels(backendRef.current);
+  };
+
+  const testConnection = () => {
+    const candidate = trimBackend(tempBackend);
+    if (!isBackendConfigured(candidate)) return;
+    setTestingConnection(true);
+    setConnectionTest(null);
+    checkHealth(candidate)
+      .then((result) => {
+        setConnectionTest(result);
+        if (result.state === "reachable") refreshModalModels(candidate);
+      })
+      .finally(() => setTestingConnection(false));
+  };
+
+  // Model list for the settings dropdown, using the backend being edited
+  const refreshModalModels = (candidate: BackendSelection) => {
+    if (!isBackendConfigured(candidate)) {
+      setModalModels([]);
+      return;
+    }
+    setModalModelsLoading(true);
+    fetchModels(candidate)
+      .then(setModalModels)
+      .catch(() => setModalModels([]))
+      .finally(() => setModalModelsLoading(false));
+  };
+
   const saveSettings = () => {
-    const url = tempApiUrl.trim();
-    const key = tempApiKey.trim();
-    setApiUrl(url);
-    setApiKey(key);
-    localStorage.setItem("kaggle-api-url", url);
-    localStorage.setItem("kaggle-api-key", key);
+    const settings: ModelSettings = {
+      ...tempSettings,
+      model: tempSettings.model.trim() || DEFAULT_MODEL_SETTINGS.model,
+      systemPrompt:
+        tempSettings.systemPrompt.trim() || DEFAULT_MODEL_SETTINGS.systemPrompt,
+      stop: tempSettings.stop?.filter((s) => s),
+    };
+    // Same checks the route runs, so bad values never reach a request
+    const validation = validateChatParams(toChatParams(settings));
+    const errors = validation.ok ? [] : [...validation.errors];
+    const { contextSize, maxTokens } = settings;
+    if (
+      !Number.isInteger(contextSize) ||
+      contextSize < CONTEXT_SIZE_LIMITS.min ||
+      contextSize > CONTEXT_SIZE_LIMITS.max
+    ) {
+      errors.push({
+        field: "contextSize",
+        message: `contextSize must be an integer between ${CONTEXT_SIZE_LIMITS.min} and ${CONTEXT_SIZE_LIMITS.max}`,
+      });
+    } else if (maxTokens >= contextSize) {
+      errors.push({
+        field: "contextSize",
+        message: "contextSize must be larger than max_tokens",
+      });
+    }
+    if (errors.length > 0) {
+      setSettingsErrors(errors);
+      return;
+    }
+
+    const selection = trimBackend(tempBackend);
+    setBackend(selection);
+    saveBackendSelection(selection);
+    setConversations((prev) =>
+      prev.map((c) => (c.id === activeIdRef.current ? { ...c, settings } : c)),
+    );
     setShowSettings(false);
   };
 
+  // For changes made outside the settings modal (knowledge dialog, slash
+  // commands); they apply from the next request on
+  const updateActiveSettings = (change: Partial<ModelSettings>) => {
+    setConversations((prev) =>
+      prev.map((c) =>
+        c.id === activeIdRef.current
+          ? { ...c, settings: { ...c.settings, ...change } }
+          : c,
+      ),
+    );
+  };
+
+  const selectKnowledgeBase = (knowledgeBaseId: string | undefined) => {
+    updateActiveSettings({ knowledgeBaseId });
+  };
+
+  // Write the current message list back into the active conversation
+  const syncActiveConversation = useCallback(() => {
+    const id = activeIdRef.current;
+    const msgs = messagesRef.current;
+    setConversations((prev) =>
+      prev.map((c) => {
+        if (c.id !== id) return c;
+        const updated = { ...c, messages: msgs, updatedAt: Date.now() };
+        return { ...updated, title: deriveTitle(updated) };
+      }),
+    );
+  }, []);
+
+  // The active path and the branches around it, as the helpers in
+  // branches.ts see them
+  const branchedPath = useCallback(
+    (): BranchedPath => ({
+      messages: messagesRef.current,
+      branches:
+        conversationsRef.current.find((c) => c.id === activeIdRef.current)
+          ?.branches ?? {},
+    }),
+    [],
+  );
+
+  const applyPath = useCallback(
+    ({ messages, branches }: BranchedPath) => {
+      messagesRef.current = messages;
+      setMessages(messages);
+      const id = activeIdRef.current;
+      setConversations((prev) =>
+        prev.map((c) => (c.id === id ? { ...c, branches } : c)),
+      );
+      syncActiveConversation();
+    },
+    [syncActiveConversation],
+  );
+
+  // The queue is shown beside the composer, so its ref and state move together
+  const updateQueue = useCallback((next: QueuedRequest[]) => {
+    queueRef.current = next;
+    setQueue(next);
+  }, []);
+
   const clearChat = () => {
-    queueRef.current = [];
+    const waiting = queueRef.current.length;
+    if (
+      waiting > 0 &&
+      !confirm(
+        `Clear the chat and drop ${waiting} waiting prompt${waiting === 1 ? "" : "s"}?`,
+      )
+    ) {
+      return;
+    }
+    updateQueue([]);
+    abortRef.current?.abort();
     processingRef.current = false;
-    messagesRef.current = [];
-    setMessages([]);
+    applyPath({ messages: [], branches: {} });
     setIsLoading(false);
   };
 
+  const openConversation = (conversation: Conversation) => {
+    setActiveId(conversation.id);
+    messagesRef.current = conversation.messages;
+    setMessages(conversation.messages);
+    setShowSidebar(false);
+  };
+
+  const selectConversation = (id: string) => {
+    // Switching mid-stream would write tokens into the wrong conversation
+    if (processingRef.current || id === activeIdRef.current) return;
+    const target = conversationsRef.current.find((c) => c.id === id);
+    if (target) openConversation(target);
+  };
+
+  const newConversation = () => {
+    if (processingRef.current) return;
+    const current = conversationsRef.current.find(
+      (c) => c.id === activeIdRef.current,
+    );
+    // New chats inherit the model settings of the one we're leaving
+    const conversation = createConversation(current?.settings);
+    setConversations((prev) => [conversation, ...prev]);
+    openConversation(conversation);
+  };
+
+  const renameConversation = (id: string, title: string) => {
+    setConversations((prev) =>
+      prev.map((c) => (c.id === id ? { ...c, title } : c)),
+    );
+  };
+
+  const deleteConversation = (id: string) => {
+    if (processingRef.current && id === activeIdRef.current) return;
+    const remaining = conversationsRef.current.filter((c) => c.id !== id);
+    if (remaining.length === 0) remaining.push(createConversation());
+    setConversations(remaining);
+    if (id === activeIdRef.current) openConversation(remaining[0]);
+  };
+
+  const importConversations = async (file: File) => {
+    if (processingRef.current) return;
+    let imported: Conversation[];
+    try {
+      imported = parseTranscript(await file.text(), file.name);
+    } catch (err) {
+      alert(
+        `Couldn't import ${file.name}: ${
+          err instanceof Error ? err.message : "unknown error"
+        }`,
+      );
+      return;
+    }
+    setConversations((prev) => [...imported, ...prev]);
+    openConversation(imported[0]);
+  };
+
   const processQueue = useCallback(async () => {
     if (processingRef.current) return;
     processingRef.current = true;
@@ -106,40 +541,141 @@ export default function ChatPage() {
 
     try {
       while (queueRef.current.length > 0) {
-        queueRef.current.shift();
+        const next = queueRef.current[0];
+        // Batch mode answers every waiting prompt in one turn
+        const taken =
+          next.prompt && queueModeRef.current === "batch"
+            ? queueRef.current.filter((r) => r.prompt)
+            : [next];
+        updateQueue(queueRef.current.filter((r) => !taken.includes(r)));
+        const request: QueuedRequest =
+          taken.length > 1
+            ? { ...next, prompt: mergePrompts(taken.map((r) => r.prompt!)) }
+            : next;
 
-        // User message is already in messagesRef (added by sendMessage)
-        // Snapshot messages up to this point for the API call
-        const apiMessages = [...messagesRef.current];
+        // A prompt joins the history only now that its turn has come
+        if (request.prompt) {
+          const { text, attachments } = request.prompt;
+          const userMsg: Message = {
+            role: "user",
+            content: text,
+            ...(attachments && { attachments }),
+          };
+          messagesRef.current = [...messagesRef.current, userMsg];
+          setMessages([...messagesRef.current]);
+          syncActiveConversation();
+        }
+        const lastMsg = messagesRef.current[messagesRef.current.length - 1];
+        if (request.continuation && lastMsg?.role !== "assistant") continue;
 
-        // Add empty assistant placeholder
-        const assistantMsg: Message = { role: "assistant", content: "" };
-        const withAssistant = [...messagesRef.current, assistantMsg];
-        messagesRef.current = withAssistant;
-        setMessages([...withAssistant]);
+        // Snapshot messages up to this point for the API call; only the
+        // active branch is ever sent
+        const conversation = conversationsRef.current.find(
+          (c) => c.id === activeIdRef.current,
+        );
+        const settings = conversation?.settings || DEFAULT_MODEL_SETTINGS;
+        // Oldest turns that no longer fit in the context window stay in the
+        // UI but aren't sent
+        const { sendFrom } = planContext(
+          messagesRef.current,
+          settings.systemPrompt,
+          settings.contextSize,
+          settings.maxTokens,
+          Boolean(settings.knowledgeBaseId),
+        );
+        const apiMessages = messagesRef.current.slice(sendFrom).map((m) => ({
+          role: m.role,
+          content: toApiContent(m, supportsVision(settings.model)),
+        }));
 
-        const assistantIdx = withAssistant.length - 1;
+        // A continuation streams into the reply it extends; anything else
+        // gets an empty assistant placeholder
+        const partial = request.continuation ? lastMsg : null;
+        if (!partial) {
+          const assistantMsg: Message = { role: "assistant", content: "" };
+          messagesRef.current = [...messagesRef.current, assistantMsg];
+          setMessages([...messagesRef.current]);
+        }
+
+        const assistantIdx = messagesRef.current.length - 1;
+        const updateAssistant = (message: Message) => {
+          const updated = [...messagesRef.current];
+          updated[assistantIdx] = message;
+          messagesRef.current = updated;
+          setMessages([...updated]);
+        };
+
+        // Shared by the Stop button and the 60 s request timeout
+        const controller = new AbortController();
+        abortRef.current = controller;
+        let timedOut = false;
+
+        // Compare mode: every target answers into its own column
+        const targets = conversation?.compareTargets;
+        if (!partial && targets && isComparing(targets)) {
+          const comparison = await streamComparison(
+            targets,
+            { messages: apiMessages, ...toChatParams(settings) },
+            backendRef.current,
+            settings.model,
+            controller.signal,
+            (next) =>
+              updateAssistant({
+                role: "assistant",
+                content: comparisonContent(next),
+                comparison: next,
+              }),
+          );
+          // Stopped before any column said anything
+          if (
+            controller.signal.aborted &&
+            comparison.answers.every((a) => !a.content)
+          ) {
+            messagesRef.current = messagesRef.current.filter(
+              (_, j) => j !== assistantIdx,
+            );
+            setMessages([...messagesRef.current]);
+          }
+          continue;
+        }
 
         try {
-          // Abort if the request takes longer than 60 seconds
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 60000);
-
-          const response = await fetch("/api/chat", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            signal: controller.signal,
-            body: JSON.stringify({
-              messages: apiMessages.map((m) => ({
-                role: m.role,
-                content: m.content,
-              })),
-              apiUrl: apiUrlRef.current,
-              apiKey: apiKeyRef.current,
-            }),
-          });
-
-          clearTimeout(timeoutId);
+          let response: Response;
+          for (let attempt = 0; ; attempt++) {
+            // Abort if the request takes longer than 60 seconds
+            const timeoutId = setTimeout(() => {
+              timedOut = true;
+              controller.abort();
+            }, 60000);
+
+            response = await fetch("/api/chat", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              signal: controller.signal,
+              body: JSON.stringify({
+                messages: apiMessages,
+                continuation: request.continuation,
+                ...backendBody(backendRef.current),
+                ...toChatParams(settings),
+              }),
+            });
+
+            clearTimeout(timeoutId);
+
+            // Rate limited or backend busy — wait it out instead of failing
+            if (response.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) {
+              break;
+            }
+            const waitMs = retryAfterMs(response);
+            setRetryNotice(
+              `Server busy — retrying in ${Math.ceil(waitMs / 1000)} s…`,
+            );
+            try {
+              await sleep(waitMs, controller.signal);
+            } finally {
+              setRetryNotice(null);
+            }
+          }
 
           if (!response.ok) {
             let errorMsg = `Server error (${response.status})`;
@@ -155,8 +691,16 @@ export default function ChatPage() {
           const reader = response.body?.getReader();
           if (!reader) throw new Error("No response stream available");
 
-          const decoder = new TextDecoder();
           let fullContent = "";
+          const meta: MessageMeta = {};
+          const content = () =>
+            partial
+              ? mergeContinuation(partial.content, fullContent)
+              : fullContent;
+          let toolSteps: ToolStep[] = partial?.toolSteps ?? [];
+          // Completion tokens count both halves of a continued reply and
+          // every tool round
+          let earlierTokens = partial?.meta?.usage?.completionTokens ?? 0;
 
           // Safety: if no chunk arrives for 30 s, assume the stream stalled.
           let chunkTimer: ReturnType<typeof setTimeout> | null = null;
@@ -167,22 +711,49 @@ export default function ChatPage() {
 
           resetChunkTimer();
           try {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-
+            for await (const event of readChatStream(reader)) {
               resetChunkTimer();
-              const chunk = decoder.decode(value, { stream: true });
-              fullContent += chunk;
+              if (event.type === "delta") fullContent += event.content;
+              else if (event.type === "meta") {
+                meta.model = event.model;
+                meta.backend = event.backend;
+                meta.skipped = event.skipped;
+              } else if (event.type === "sources") {
+                meta.sources = event.chunks;
+              } else if (event.type === "finish") {
+                meta.finishReason = event.reason;
+              } else if (event.type === "error") meta.error = event.message;
+              else if (event.type === "usage") {
+                meta.usage = {
+                  promptTokens: event.promptTokens,
+                  completionTokens: earlierTokens + event.completionTokens,
+                  totalTokens: earlierTokens + event.totalTokens,
+                };
+                earlierTokens += event.completionTokens;
+              } else if (event.type === "tool_call") {
+                toolSteps = [
+                  ...toolSteps,
+                  {
+                    id: event.id,
+                    name: event.name,
+                    arguments: event.arguments,
+                  },
+                ];
+              } else if (event.type === "tool_result") {
+                toolSteps = toolSteps.map((step) =>
+                  step.id === event.id
+                    ? { ...step, result: event.content, error: event.error }
+                    : step,
+                );
+              }
 
               // Update the assistant message in place
-              const updated = [...messagesRef.current];
-              updated[assistantIdx] = {
+              updateAssistant({
                 role: "assistant",
-                content: fullContent,
-              };
-              messagesRef.current = updated;
-              setMessages([...updated]);
+                content: content(),
+                ...(toolSteps.length > 0 && { toolSteps }),
+                meta: { ...meta },
+              });
             }
           } finally {
             if (chunkTimer) clearTimeout(chunkTimer);
@@ -190,31 +761,74 @@ export default function ChatPage() {
 
           if (!fullContent.trim()) {
             throw new Error(
-              "Received an empty response from the model. Check if your Kaggle notebook is still running.",
+              meta.error ||
+                "Received an empty response from the model. Check if your Kaggle notebook is still running.",
             );
           }
+          if (!meta.finishReason && !meta.error) {
+            // The stall timer cancelled the read
+            updateAssistant({
+              role: "assistant",
+              content: content(),
+              ...(toolSteps.length > 0 && { toolSteps }),
+              meta: {
+                ...meta,
+                error: "No data for 30 s — the response was cut short.",
+              },
+            });
+          }
         } catch (error) {
+          if (
+            error instanceof Error &&
+            error.name === "AbortError" &&
+            !timedOut
+          ) {
+            // Stopped by the user — keep whatever streamed so far
+            const updated = [...messagesRef.current];
+            if (
+              !partial &&
+              assistantIdx < updated.length &&
+              !updated[assistantIdx].content
+            ) {
+              updated.splice(assistantIdx, 1);
+            }
+            messagesRef.current = updated;
+            setMessages([...updated]);
+            continue;
+          }
           const errMsg =
             error instanceof Error
               ? error.name === "AbortError"
                 ? "Request timed out (60 s). The model server may be overloaded — try again."
                 : error.message
               : "An unknown error occurred";
-          const updated = [...messagesRef.current];
-          if (assistantIdx < updated.length) {
-            updated[assistantIdx] = {
+          if (assistantIdx >= messagesRef.current.length) continue;
+          if (partial) {
+            // Don't throw away the reply being continued
+            const current = messagesRef.current[assistantIdx];
+            updateAssistant({
+              ...current,
+              meta: { ...current.meta, error: errMsg },
+            });
+          } else {
+            updateAssistant({
               role: "assistant",
               content: `⚠️ **Error:** ${errMsg}`,
-            };
+            });
           }
-          messagesRef.current = updated;
-          setMessages([...updated]);
         }
       }
     } finally {
       // Always reset processing state so future messages are never blocked
       processingRef.current = false;
+      abortRef.current = null;
       setIsLoading(false);
+      const settled = dropEmptyBranch(branchedPath());
+      if (settled.messages !== messagesRef.current) {
+        applyPath(settled);
+      } else {
+        syncActiveConversation();
+      }
 
       setTimeout(() => {
         textareaRef.current?.focus();
@@ -227,26 +841,38 @@ export default function ChatPage() {
         queueMicrotask(() => processQueue());
       }
     }
-  }, []);
+  }, [syncActiveConversation, updateQueue, branchedPath, applyPath]);
 
-  const sendMessage = async (text?: string) => {
-    const msgText = (text || input).trim();
-    if (!msgText) return;
+  // Without `text`, sends the composer: its input and pending attachments
+  const sendMessage = async (text?: string, attachments?: Attachment[]) => {
+    const msgText = (text ?? input).trim();
+    const files = attachments ?? (text === undefined ? pendingAttachments : []);
+    if (!msgText && files.length === 0) return;
 
-    if (!apiUrlRef.current) {
-      setShowSettings(true);
+    if (!isBackendConfigured(backendRef.current)) {
+      openSettings();
       return;
     }
 
-    setInput("");
-
-    // Add user message to UI immediately
-    const userMsg: Message = { role: "user", content: msgText };
-    messagesRef.current = [...messagesRef.current, userMsg];
-    setMessages([...messagesRef.current]);
+    // Edits and "Send to model" leave whatever is being typed alone
+    if (text === undefined) {
+      setInput("");
+      setPendingAttachments([]);
+      setAttachError(null);
+    }
 
-    // Queue the message for API processing
-    queueRef.current.push(msgText);
+    // While a reply streams the prompt waits in the queue; otherwise it
+    // goes straight into the history
+    updateQueue([
+      ...queueRef.current,
+      {
+        id: newRequestId(),
+        prompt: {
+          text: msgText,
+          ...(files.length > 0 && { attachments: files }),
+        },
+      },
+    ]);
 
     // Start processing if not already running
     if (!processingRef.current) {
@@ -254,239 +880,930 @@ export default function ChatPage() {
     }
   };
 
-  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
-    if (e.key === "Enter" && !e.shiftKey) {
+  // Only the reply streaming now; waiting prompts go out after it
+  const stopGeneration = () => {
+    abortRef.current?.abort();
+  };
+
+  const cancelQueued = (id: string) => {
+    updateQueue(queueRef.current.filter((r) => r.id !== id));
+  };
+
+  const editQueued = (id: string, text: string) => {
+    updateQueue(
+      queueRef.current.map((r) =>
+        r.id === id && r.prompt
+          ? { ...r, prompt: { ...r.prompt, text: text.trim() } }
+          : r,
+      ),
+    );
+  };
+
+  const sendQueuedNow = (id: string) => {
+    const request = queueRef.current.find((r) => r.id === id);
+    if (!request) return;
+    updateQueue([request, ...queueRef.current.filter((r) => r !== request)]);
+    abortRef.current?.abort();
+  };
+
+  const changeQueueMode = (mode: QueueMode) => {
+    setQueueMode(mode);
+    saveQueueMode(mode);
+  };
+
+  // Branch off at `idx` so the model answers again from there; what
+  // followed stays reachable as another branch
+  const branchOffAt = (idx: number) => {
+    applyPath(forkAt(branchedPath(), idx));
+  };
+
+  const showBranch = (idx: number, to: number) => {
+    if (processingRef.current) return;
+    setEditingIdx(null);
+    applyPath(switchBranch(branchedPath(), idx, to));
+  };
+
+  const regenerate = (idx: number) => {
+    if (processingRef.current) return;
+    if (!isBackendConfigured(backendRef.current)) {
+      openSettings();
+      return;
+    }
+    branchOffAt(idx);
+    updateQueue([...queueRef.current, { id: newRequestId() }]);
+    processQueue();
+  };
+
+  // Ask the model to pick up a reply that hit max_tokens
+  const continueGeneration = () => {
+    if (processingRef.current) return;
+    if (!isBackendConfigured(backendRef.current)) {
+      openSettings();
+      return;
+    }
+    updateQueue([
+      ...queueRef.current,
+      { id: newRequestId(), continuation: true },
+    ]);
+    processQueue();
+  };
+
+  // Record the better answer; the chat carries on with it
+  const voteAnswer = (idx: number, answer: number) => {
+    if (processingRef.current) return;
+    const updated = [...messagesRef.current];
+    updated[idx] = voteFor(updated[idx], answer);
+    messagesRef.current = updated;
+    setMessages(updated);
+    syncActiveConversation();
+  };
+
+  const setCompareTargets = (compareTargets: CompareTarget[] | undefined) => {
+    setConversations((prev) =>
+      prev.map((c) =>
+        c.id === activeIdRef.current ? { ...c, compareTargets } : c,
+      ),
+    );
+  };
+
+  const startEdit = (idx: number) => {
+    setEditingIdx(idx);
+    setEditText(messagesRef.current[idx].content);
+  };
+
+  const submitEdit = () => {
+    if (editingIdx === null || processingRef.current) return;
+    const attachments = messagesRef.current[editingIdx].attachments || [];
+    if (!editText.trim() && attachments.length === 0) return;
+    if (!isBackendConfigured(backendRef.current)) {
+      openSettings();
+      return;
+    }
+    branchOffAt(editingIdx);
+    setEditingIdx(null);
+    sendMessage(editText, attachments);
+  };
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const problems: string[] = [];
+    const room = MAX_ATTACHMENTS - pendingAttachments.length;
+    if (files.length > room) {
+      problems.push(`At most ${MAX_ATTACHMENTS} attachments per message`);
+    }
+    const model = (
+      conversationsRef.current.find((c) => c.id === activeIdRef.current)
+        ?.settings || DEFAULT_MODEL_SETTINGS
+    ).model;
+    const added: Attachment[] = [];
+    for (const file of files.slice(0, Math.max(0, room))) {
+      try {
+        const attachment = await readAttachment(file);
+        if (attachment.kind === "image" && !supportsVision(model)) {
+          problems.push(`${model} can't see images (${file.name})`);
+        } else if (
+          attachment.kind === "image" &&
+          imageBytes([...pendingAttachments, ...added, attachment]) >
+            MAX_MESSAGE_IMAGE_BYTES
+        ) {
+          problems.push(
+            `Images in one message can add up to ${formatSize(MAX_MESSAGE_IMAGE_BYTES)} (${file.name})`,
+          );
+        } else {
+          added.push(attachment);
+        }
+      } catch (err) {
+        problems.push(err instanceof Error ? err.message : file.name);
+      }
+    }
+    setPendingAttachments((current) => [...current, ...added]);
+    setAttachError(problems.length > 0 ? problems.join(" · ") : null);
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
       e.preventDefault();
-      sendMessage();
+      addFiles(files);
+      return;
+    }
+    // A long log or stack trace reads better as a file than in the textarea
+    const text = e.clipboardData.getData("text/plain");
+    if (text.split("\n").length > PASTE_AS_FILE_LINES) {
+      e.preventDefault();
+      const count = pendingAttachments.filter((a) =>
+        a.name.startsWith("pasted-"),
+      ).length;
+      setPendingAttachments([
+        ...pendingAttachments,
+        textAttachment(`pasted-${count + 1}.txt`, text),
+      ]);
     }
   };
 
-  const handleSubmit = (e: FormEvent) => {
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
-    sendMessage();
-  };
-
-  const renderContent = (content: string) => {
-    const parts = content.split(/(```[\s\S]*?```)/g);
-    return parts.map((part, i) => {
-      if (part.startsWith("```") && part.endsWith("```")) {
-        const code = part.slice(3, -3);
-        const newlineIdx = code.indexOf("\n");
-        const codeContent = newlineIdx >= 0 ? code.slice(newlineIdx + 1) : code;
-        return (
-          <pre key={i}>
-            <code>{codeContent}</code>
-          </pre>
+    setDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const changeInput = (value: string) => {
+    setInput(value);
+    setCommandIndex(0);
+    setCommandMenuClosed(false);
+    setShowCommandHelp(false);
+    setCommandNotice(null);
+  };
+
+  const activeConversation = conversations.find((c) => c.id === activeId);
+  const activeSettings = activeConversation?.settings;
+  const compareTargets = activeConversation?.compareTargets;
+  const path: BranchedPath = {
+    messages,
+    branches: activeConversation?.branches ?? {},
+  };
+  const comparing = isComparing(compareTargets);
+  // `messages` is ahead of the stored conversation while a reply streams
+  const exportable =
+    activeConversation && messages.length > 0
+      ? { ...activeConversation, messages }
+      : null;
+  const servedModels =
+    configured && served?.backend === currentBackend ? served.models : [];
+  // Prefer the conversation's model if the backend serves it, else whatever is loaded
+  const loadedModel =
+    servedModels.find((m) => m.id === activeSettings?.model) || servedModels[0];
+  const statusClass = !configured
+    ? "offline"
+    : !healthResult
+      ? "pending"
+      : backendUp
+        ? ""
+        : "offline";
+  const modelLabel = !configured
+    ? "Not connected"
+    : !healthResult
+      ? "Connecting…"
+      : !backendUp
+        ? HEALTH_LABELS[healthResult.state]
+        : loadedModel
+          ? displayModelName(loadedModel.id)
+          : HEALTH_LABELS.reachable;
+
+  const contextSettings = activeSettings || DEFAULT_MODEL_SETTINGS;
+  const contextPlan = planContext(
+    messages,
+    contextSettings.systemPrompt,
+    contextSettings.contextSize,
+    contextSettings.maxTokens,
+    Boolean(contextSettings.knowledgeBaseId),
+  );
+  const tokensUsed =
+    contextPlan.promptTokens +
+    (input.trim() ? estimateTokens(input) : 0) +
+    pendingAttachments.reduce((sum, a) => sum + attachmentTokens(a), 0);
+
+  const presets = [...BUILT_IN_PRESETS, ...customPresets];
+  const activePreset =
+    findPreset(presets, contextSettings.presetId ?? DEFAULT_PRESET_ID) ??
+    BUILT_IN_PRESETS[0];
+  const suggestions = activePreset.suggestions.length
+    ? activePreset.suggestions
+    : BUILT_IN_PRESETS[0].suggestions;
+
+  const updatePresets = (next: Preset[]) => {
+    setCustomPresets(next);
+    saveCustomPresets(next);
+  };
+
+  const commandContext: CommandContext = {
+    conversation: exportable,
+    settings: contextSettings,
+    presets,
+    models: servedModels.map((m) => m.id),
+    busy: isLoading,
+    updateSettings: updateActiveSettings,
+    clear: clearChat,
+    regenerate,
+    attachFiles: () => fileInputRef.current?.click(),
+    showHelp: () => setShowCommandHelp(true),
+  };
+  const commandItems =
+    input.startsWith("/") && !commandMenuClosed
+      ? completeCommand(input, commandContext)
+      : showCommandHelp
+        ? completeCommand("/", commandContext)
+        : [];
+  const selectedCommand = Math.min(commandIndex, commandItems.length - 1);
+
+  const submitCommand = () => {
+    setShowCommandHelp(false);
+    try {
+      const notice = runCommand(input, commandContext);
+      setCommandNotice(notice ? { text: notice } : null);
+      setInput("");
+    } catch (err) {
+      setCommandNotice({
+        text: err instanceof Error ? err.message : "The command failed",
+        error: true,
+      });
+    }
+  };
+
+  const submitComposer = () => {
+    if (isCommand(input)) {
+      submitCommand();
+    } else {
+      sendMessage();
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (commandItems.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setCommandIndex(
+          (selectedCommand + step + commandItems.length) % commandItems.length,
         );
+        return;
       }
-      const lines = part.split("\n");
-      return lines.map((line, j) => {
-        let rendered = line.replace(/`([^`]+)`/g, "<code>$1</code>");
-        rendered = rendered.replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>");
-        rendered = rendered.replace(/\*([^*]+)\*/g, "<em>$1</em>");
-        if (!rendered.trim())
-          return j < lines.length - 1 ? <br key={`${i}-${j}`} /> : null;
-        return (
-          <p key={`${i}-${j}`} dangerouslySetInnerHTML={{ __html: rendered }} />
-        );
-      });
-    });
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setCommandMenuClosed(true);
+        setShowCommandHelp(false);
+        return;
+      }
+      // Enter completes first; once the input reads as picked it runs
+      const picked = commandItems[selectedCommand];
+      if (
+        e.key === "Tab" ||
+        (e.key === "Enter" && !e.shiftKey && picked.value !== input.trim())
+      ) {
+        e.preventDefault();
+        changeInput(picked.value);
+        return;
+      }
+    }
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      submitComposer();
+    }
   };
 
-  const suggestions = [
-    "Write a Python hello world",
-    "Explain async/await",
-    "Debug a segfault in C",
-    "Create a REST API in Node.js",
-  ];
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    submitComposer();
+  };
 
   return (
-    <div className="app-container">
-      {/* Header */}
-      <header className="header">
-        <div className="header-left">
-          <div className="header-logo">🤖</div>
-          <div className="header-info">
-            <h1>Qwen AI Chat</h1>
-            <p>
-              <span className={`status-dot ${apiUrl ? "" : "offline"}`}></span>
-              {apiUrl ? "Qwen2.5-Coder-14B" : "Not connected"}
-            </p>
+    <div className="app-shell">
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={activeId}
+        open={showSidebar}
+        onSelect={selectConversation}
+        onNew={newConversation}
+        onRename={renameConversation}
+        onDelete={deleteConversation}
+        onImport={importConversations}
+        onClose={() => setShowSidebar(false)}
+      />
+      <div className="app-container">
+        {/* Header */}
+        <header className="header">
+          <div className="header-left">
+            <button
+              className="icon-btn sidebar-toggle"
+              onClick={() => setShowSidebar(true)}
+              title="Conversations"
+              id="sidebar-toggle-btn"
+            >
+              ☰
+            </button>
+            <div className="header-logo">🤖</div>
+            <div className="header-info">
+              <h1>Qwen AI Chat</h1>
+              <p>
+                <span
+                  className={`status-dot ${statusClass}`}
+                  title={healthResult?.message}
+                ></span>
+                {modelLabel}
+                {backendUp && healthResult.latencyMs !== null && (
+                  <span className="latency">· {healthResult.latencyMs} ms</span>
+                )}
+              </p>
+            </div>
           </div>
-        </div>
-        <div className="header-actions">
-          <button
-            className="icon-btn"
-            onClick={clearChat}
-            title="Clear chat"
-            id="clear-chat-btn"
-          >
-            🗑️
-          </button>
-          <button
-            className="icon-btn"
-            onClick={() => {
-              setTempApiUrl(apiUrl);
-              setTempApiKey(apiKey);
-              setShowSettings(true);
+          <div className="header-actions">
+            <button
+              className={`icon-btn${activeSettings?.knowledgeBaseId ? " active" : ""}`}
+              onClick={() => setShowKnowledge(true)}
+              title="Knowledge bases"
+              id="knowledge-btn"
+            >
+              📚
+            </button>
+            <button
+              className={`icon-btn${comparing ? " active" : ""}`}
+              onClick={() => setShowCompare(true)}
+              title="Compare backends or models side by side"
+              id="compare-btn"
+            >
+              ⚖️
+            </button>
+            <button
+              className="icon-btn"
+              onClick={() => setShowShare(true)}
+              disabled={!exportable}
+              title="Share a read-only link"
+              id="share-btn"
+            >
+              🔗
+            </button>
+            <ExportMenu conversation={exportable} />
+            <button
+              className="icon-btn"
+              onClick={clearChat}
+              title="Clear chat"
+              id="clear-chat-btn"
+            >
+              🗑️
+            </button>
+            <button
+              className="icon-btn"
+              onClick={openSettings}
+              title="Settings"
+              id="settings-btn"
+            >
+              ⚙️
+            </button>
+          </div>
+        </header>
+
+        {/* Chat Area */}
+        <SendToModelContext.Provider value={sendMessage}>
+          <div className="chat-area" id="chat-area" ref={chatAreaRef}>
+            {messages.length === 0 ? (
+              <div className="welcome">
+                <div className="welcome-icon">✨</div>
+                <h2>Welcome to Qwen AI Chat</h2>
+                <p>
+                  Powered by Qwen2.5-Coder-14B-Instruct running on Kaggle GPU.
+                  {!configured && (
+                    <>
+                      <br />
+                      <strong style={{ color: "#a78bfa" }}>
+                        Click ⚙️ to choose a backend first.
+                      </strong>
+                    </>
+                  )}
+                </p>
+                <div className="suggestions">
+                  {suggestions.map((s) => (
+                    <button
+                      key={s}
+                      className="suggestion-chip"
+                      onClick={() => sendMessage(s)}
+                    >
+                      {s}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              messages.map((msg, i) => (
+                <Fragment key={i}>
+                  {i === contextPlan.sendFrom && i > 0 && (
+                    <div className="context-divider">
+                      ⬆ {i} earlier message{i === 1 ? "" : "s"} no longer fit in
+                      the context window and won&apos;t be sent to the model
+                    </div>
+                  )}
+                  <div
+                    className={`message ${msg.role}${msg.comparison ? " compared" : ""}`}
+                  >
+                    <div className="message-avatar">
+                      {msg.role === "assistant" ? "🤖" : "👤"}
+                    </div>
+                    <div className="message-body">
+                      <div className="message-content">
+                        {msg.toolSteps && <ToolSteps steps={msg.toolSteps} />}
+                        {msg.comparison ? (
+                          <ComparisonView
+                            comparison={msg.comparison}
+                            streaming={isLoading && i === messages.length - 1}
+                            onVote={
+                              isLoading ? undefined : (a) => voteAnswer(i, a)
+                            }
+                          />
+                        ) : editingIdx === i ? (
+                          <div className="message-edit">
+                            <textarea
+                              value={editText}
+                              onChange={(e) => setEditText(e.target.value)}
+                              rows={3}
+                              autoFocus
+                            />
+                            <div className="message-edit-actions">
+                              <button
+                                className="btn btn-secondary"
+                                onClick={() => setEditingIdx(null)}
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                className="btn btn-primary"
+                                onClick={submitEdit}
+                                disabled={isLoading}
+                              >
+                                Save & Send
+                              </button>
+                            </div>
+                          </div>
+                        ) : msg.role === "assistant" &&
+                          !msg.content &&
+                          isLoading ? (
+                          <div className="typing-indicator">
+                            <span className="typing-dot"></span>
+                            <span className="typing-dot"></span>
+                            <span className="typing-dot"></span>
+                          </div>
+                        ) : msg.content.startsWith("⚠️") ? (
+                          <div className="error-toast">
+                            {msg.content.replace("⚠️ ", "")}
+                          </div>
+                        ) : (
+                          <>
+                            {msg.content && <Markdown content={msg.content} />}
+                            {msg.attachments && (
+                              <AttachmentList attachments={msg.attachments} />
+                            )}
+                          </>
+                        )}
+                        {msg.meta?.sources && (
+                          <SourceList sources={msg.meta.sources} />
+                        )}
+                        {msg.meta?.finishReason === "length" && (
+                          <div className="message-notice">
+                            ✂️ Truncated at max_tokens
+                            {i === messages.length - 1 && !isLoading && (
+                              <button
+                                className="btn btn-secondary"
+                                onClick={continueGeneration}
+                              >
+                                Continue
+                              </button>
+                            )}
+                          </div>
+                        )}
+                        {msg.meta?.error && (
+                          <div className="error-toast">{msg.meta.error}</div>
+                        )}
+                      </div>
+                      {!isLoading && editingIdx !== i && (
+                        <div className="message-actions">
+                          <BranchSwitcher
+                            position={branchPosition(path, i)}
+                            onSwitch={(to) => showBranch(i, to)}
+                          />
+                          {msg.role === "assistant" ? (
+                            <button
+                              onClick={() => regenerate(i)}
+                              title="Regenerate"
+                            >
+                              🔄 Regenerate
+                            </button>
+                          ) : (
+                            <button onClick={() => startEdit(i)} title="Edit">
+                              ✏️ Edit
+                            </button>
+                          )}
+                          {(msg.meta?.usage || msg.meta?.skipped?.length) && (
+                            <span
+                              className="message-usage"
+                              title={
+                                msg.meta.skipped?.length
+                                  ? `Didn't answer: ${msg.meta.skipped.join(", ")}`
+                                  : undefined
+                              }
+                            >
+                              {[
+                                msg.meta.skipped?.length &&
+                                  `↪ ${msg.meta.backend}`,
+                                msg.meta.usage &&
+                                  `${msg.meta.usage.completionTokens} tokens`,
+                              ]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </Fragment>
+              ))
+            )}
+          </div>
+        </SendToModelContext.Provider>
+
+        {/* Input - NEVER disabled */}
+        <div
+          className={`input-area ${dragging ? "dragging" : ""}`}
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes("Files")) return;
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+              setDragging(false);
+            }
+          }}
+          onDrop={handleDrop}
+        >
+          <AttachmentList
+            attachments={pendingAttachments}
+            onRemove={(i) =>
+              setPendingAttachments(
+                pendingAttachments.filter((_, j) => j !== i),
+              )
+            }
+          />
+          {storageFull && (
+            <p className="attach-error">
+              ⚠️ Browser storage is full, so recent changes won&apos;t survive a
+              reload. Delete old chats, especially ones with images.
+            </p>
+          )}
+          {attachError && <p className="attach-error">{attachError}</p>}
+          {commandNotice && (
+            <p
+              className={`command-notice${commandNotice.error ? " error" : ""}`}
+            >
+              {commandNotice.text}
+            </p>
+          )}
+          <QueueList
+            items={queue.filter((r) => r.prompt)}
+            mode={queueMode}
+            onModeChange={changeQueueMode}
+            onCancel={cancelQueued}
+            onEdit={editQueued}
+            onSendNow={sendQueuedNow}
+          />
+          <CommandMenu
+            items={commandItems}
+            selected={selectedCommand}
+            title={
+              showCommandHelp && !input.startsWith("/")
+                ? "Slash commands"
+                : undefined
+            }
+            onPick={(item) => {
+              changeInput(item.value);
+              textareaRef.current?.focus();
             }}
-            title="Settings"
-            id="settings-btn"
-          >
-            ⚙️
-          </button>
+          />
+          <form className="input-wrapper" onSubmit={handleSubmit}>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              hidden
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files || []));
+                e.target.value = "";
+              }}
+            />
+            <button
+              type="button"
+              className="attach-btn"
+              onClick={() => fileInputRef.current?.click()}
+              title="Attach files or images (or drop / paste them here)"
+            >
+              📎
+            </button>
+            <textarea
+              ref={textareaRef}
+              value={input}
+              onChange={(e) => changeInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
+              placeholder={
+                configured
+                  ? "Type your message, or / for commands... (Shift+Enter for new line)"
+                  : "Choose a backend in ⚙️ Settings first..."
+              }
+              rows={1}
+              disabled={false}
+              id="chat-input"
+            />
+            {isLoading && (
+              <button
+                type="button"
+                className="send-btn stop-btn"
+                onClick={stopGeneration}
+                title="Stop generating"
+                id="stop-btn"
+              >
+                ■
+              </button>
+            )}
+            <button
+              type="submit"
+              className="send-btn"
+              disabled={!input.trim() && pendingAttachments.length === 0}
+              id="send-btn"
+            >
+              ➤
+            </button>
+          </form>
+          <div className="input-footer">
+            <p className="input-hint">
+              {retryNotice ||
+                (comparing
+                  ? `⚖️ Comparing ${compareTargets!.map((t) => t.label).join(" vs ")}`
+                  : "Qwen2.5-Coder-14B-Instruct · Kaggle T4 GPU · Streaming enabled")}
+            </p>
+            <span
+              className={`context-meter ${
+                tokensUsed > contextPlan.budget ? "over" : ""
+              }`}
+              title={`≈${tokensUsed} prompt tokens; ${contextSettings.maxTokens} reserved for the reply`}
+            >
+              {tokensUsed.toLocaleString()} /{" "}
+              {contextSettings.contextSize.toLocaleString()} tokens
+            </span>
+          </div>
         </div>
-      </header>
-
-      {/* Chat Area */}
-      <div className="chat-area" id="chat-area" ref={chatAreaRef}>
-        {messages.length === 0 ? (
-          <div className="welcome">
-            <div className="welcome-icon">✨</div>
-            <h2>Welcome to Qwen AI Chat</h2>
-            <p>
-              Powered by Qwen2.5-Coder-14B-Instruct running on Kaggle GPU.
-              {!apiUrl && (
+
+        {showKnowledge && (
+          <KnowledgeDialog
+            selectedId={activeSettings?.knowledgeBaseId}
+            onSelect={selectKnowledgeBase}
+            onClose={() => setShowKnowledge(false)}
+          />
+        )}
+
+        {showCompare && (
+          <CompareDialog
+            targets={compareTargets}
+            profiles={backendOptions.profiles}
+            chatModel={contextSettings.model}
+            models={servedModels}
+            onSave={setCompareTargets}
+            onClose={() => setShowCompare(false)}
+          />
+        )}
+
+        {showShare && exportable && (
+          <ShareDialog
+            conversation={exportable}
+            onClose={() => setShowShare(false)}
+          />
+        )}
+
+        {/* Settings Modal */}
+        {showSettings && (
+          <div className="modal-overlay" onClick={() => setShowSettings(false)}>
+            <div className="modal" onClick={(e) => e.stopPropagation()}>
+              <h2>⚙️ Settings</h2>
+              <p className="modal-desc">
+                Connect to your Kaggle-hosted model. Run the notebook to get
+                your ngrok URL and API key, then paste them below.
+              </p>
+              {backendOptions.profiles.length > 0 && (
+                <div className="form-group">
+                  <label htmlFor="backend-select">Backend</label>
+                  <select
+                    id="backend-select"
+                    value={tempBackend.profileId || CUSTOM_BACKEND}
+                    onChange={(e) =>
+                      setTempBackend({
+                        ...tempBackend,
+                        profileId:
+                          e.target.value === CUSTOM_BACKEND
+                            ? ""
+                            : e.target.value,
+                      })
+                    }
+                  >
+                    {backendOptions.profiles.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.label}
+                      </option>
+                    ))}
+                    {backendOptions.allowCustom && (
+                      <option value={CUSTOM_BACKEND}>Custom ngrok URL…</option>
+                    )}
+                  </select>
+                  <p className="hint">
+                    Profiles are configured on the server — their API keys never
+                    reach your browser
+                  </p>
+                </div>
+              )}
+              {backendOptions.profiles.length === 0 &&
+                !backendOptions.allowCustom && (
+                  <p className="hint connection-test failed">
+                    This deployment has no backend profiles and doesn&apos;t
+                    accept custom URLs. Ask the admin to set BACKEND_PROFILES.
+                  </p>
+                )}
+              {!tempBackend.profileId && backendOptions.allowCustom && (
                 <>
-                  <br />
-                  <strong style={{ color: "#a78bfa" }}>
-                    Click ⚙️ to set your ngrok URL and API key first.
-                  </strong>
+                  <div className="form-group">
+                    <label htmlFor="api-url-input">Ngrok API URL</label>
+                    <input
+                      id="api-url-input"
+                      type="text"
+                      value={tempBackend.apiUrl}
+                      onChange={(e) =>
+                        setTempBackend({
+                          ...tempBackend,
+                          apiUrl: e.target.value,
+                        })
+                      }
+                      placeholder="https://xxxx.ngrok-free.app"
+                      autoFocus
+                    />
+                    <p className="hint">
+                      The URL printed in your Kaggle notebook — /v1 is added
+                      automatically. Allowed hosts:{" "}
+                      {backendOptions.customHosts.join(", ")}
+                    </p>
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="api-key-input">API Key</label>
+                    <input
+                      id="api-key-input"
+                      type="password"
+                      value={tempBackend.apiKey}
+                      onChange={(e) =>
+                        setTempBackend({
+                          ...tempBackend,
+                          apiKey: e.target.value,
+                        })
+                      }
+                      placeholder="your-secret-api-key"
+                    />
+                    <p className="hint">
+                      The API_KEY value from your Kaggle notebook (e.g.
+                      my-secret-key-xxx)
+                    </p>
+                  </div>
                 </>
               )}
-            </p>
-            <div className="suggestions">
-              {suggestions.map((s) => (
+              {backendOptions.profiles.some(
+                (p) => p.id !== tempBackend.profileId,
+              ) && (
+                <div className="form-group">
+                  <label>Fallback backends</label>
+                  <div className="checkbox-list">
+                    {backendOptions.profiles
+                      .filter((p) => p.id !== tempBackend.profileId)
+                      .map((p) => (
+                        <label key={p.id}>
+                          <input
+                            type="checkbox"
+                            checked={tempBackend.fallbacks.includes(p.id)}
+                            onChange={(e) =>
+                              setTempBackend({
+                                ...tempBackend,
+                                // Keep the deployment's profile order
+                                fallbacks: backendOptions.profiles
+                                  .map((o) => o.id)
+                                  .filter((id) =>
+                                    id === p.id
+                                      ? e.target.checked
+                                      : tempBackend.fallbacks.includes(id),
+                                  ),
+                              })
+                            }
+                          />
+                          {p.label}
+                        </label>
+                      ))}
+                  </div>
+                  <p className="hint">
+                    Tried in this order when the backend above is down or busy
+                  </p>
+                </div>
+              )}
+              <AdvancedSettings
+                settings={tempSettings}
+                errors={settingsErrors}
+                onChange={setTempSettings}
+                models={modalModels}
+                modelsLoading={modalModelsLoading}
+                onRefreshModels={() =>
+                  refreshModalModels(trimBackend(tempBackend))
+                }
+                presets={presets}
+                onManagePresets={() => setShowPresets(true)}
+              />
+              <div className="setup-steps">
+                <p className="setup-title">📋 Quick Setup</p>
+                <ol>
+                  <li>Open your Kaggle notebook and run all cells</li>
+                  <li>
+                    Copy the <strong>ngrok URL</strong> and{" "}
+                    <strong>API Key</strong> from the output
+                  </li>
+                  <li>Paste them above and click Save</li>
+                </ol>
+              </div>
+              {connectionTest && (
+                <p
+                  className={`connection-test ${
+                    connectionTest.state === "reachable" ? "ok" : "failed"
+                  }`}
+                >
+                  {connectionTest.state === "reachable" ? "✅" : "❌"}{" "}
+                  {HEALTH_LABELS[connectionTest.state]}
+                  {connectionTest.latencyMs !== null &&
+                    ` (${connectionTest.latencyMs} ms)`}
+                  {connectionTest.state !== "reachable" &&
+                    ` — ${connectionTest.message}`}
+                </p>
+              )}
+              <div className="modal-actions">
                 <button
-                  key={s}
-                  className="suggestion-chip"
-                  onClick={() => sendMessage(s)}
+                  className="btn btn-secondary"
+                  onClick={testConnection}
+                  disabled={
+                    !isBackendConfigured(trimBackend(tempBackend)) ||
+                    testingConnection
+                  }
                 >
-                  {s}
+                  {testingConnection ? "Testing…" : "Test connection"}
+                </button>
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => setShowSettings(false)}
+                >
+                  Cancel
+                </button>
+                <button className="btn btn-primary" onClick={saveSettings}>
+                  Save & Connect
                 </button>
-              ))}
-            </div>
-          </div>
-        ) : (
-          messages.map((msg, i) => (
-            <div key={i} className={`message ${msg.role}`}>
-              <div className="message-avatar">
-                {msg.role === "assistant" ? "🤖" : "👤"}
-              </div>
-              <div className="message-content">
-                {msg.role === "assistant" && !msg.content && isLoading ? (
-                  <div className="typing-indicator">
-                    <span className="typing-dot"></span>
-                    <span className="typing-dot"></span>
-                    <span className="typing-dot"></span>
-                  </div>
-                ) : msg.content.startsWith("⚠️") ? (
-                  <div className="error-toast">
-                    {msg.content.replace("⚠️ ", "")}
-                  </div>
-                ) : (
-                  renderContent(msg.content)
-                )}
               </div>
             </div>
-          ))
+          </div>
         )}
-      </div>
 
-      {/* Input - NEVER disabled */}
-      <div className="input-area">
-        <form className="input-wrapper" onSubmit={handleSubmit}>
-          <textarea
-            ref={textareaRef}
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder={
-              apiUrl
-                ? "Type your message... (Shift+Enter for new line)"
-                : "Set your ngrok URL & API key in ⚙️ Settings first..."
-            }
-            rows={1}
-            disabled={false}
-            id="chat-input"
+        {/* Opened from the settings modal, so it stacks above it */}
+        {showPresets && (
+          <PresetsDialog
+            custom={customPresets}
+            onChange={updatePresets}
+            onClose={() => setShowPresets(false)}
           />
-          <button
-            type="submit"
-            className="send-btn"
-            disabled={!input.trim()}
-            id="send-btn"
-          >
-            ➤
-          </button>
-        </form>
-        <p className="input-hint">
-          Qwen2.5-Coder-14B-Instruct · Kaggle T4 GPU · Streaming enabled
-        </p>
+        )}
       </div>
-
-      {/* Settings Modal */}
-      {showSettings && (
-        <div className="modal-overlay" onClick={() => setShowSettings(false)}>
-          <div className="modal" onClick={(e) => e.stopPropagation()}>
-            <h2>⚙️ Settings</h2>
-            <p className="modal-desc">
-              Connect to your Kaggle-hosted model. Run the notebook to get your
-              ngrok URL and API key, then paste them below.
-            </p>
-            <div className="form-group">
-              <label htmlFor="api-url-input">Ngrok API URL</label>
-              <input
-                id="api-url-input"
-                type="text"
-                value={tempApiUrl}
-                onChange={(e) => setTempApiUrl(e.target.value)}
-                placeholder="https://xxxx.ngrok-free.app"
-                autoFocus
-              />
-              <p className="hint">
-                The URL printed in your Kaggle notebook — /v1 is added
-                automatically
-              </p>
-            </div>
-            <div className="form-group">
-              <label htmlFor="api-key-input">API Key</label>
-              <input
-                id="api-key-input"
-                type="password"
-                value={tempApiKey}
-                onChange={(e) => setTempApiKey(e.target.value)}
-                placeholder="your-secret-api-key"
-              />
-              <p className="hint">
-                The API_KEY value from your Kaggle notebook (e.g.
-                my-secret-key-xxx)
-              </p>
-            </div>
-            <div className="setup-steps">
-              <p className="setup-title">📋 Quick Setup</p>
-              <ol>
-                <li>Open your Kaggle notebook and run all cells</li>
-                <li>
-                  Copy the <strong>ngrok URL</strong> and{" "}
-                  <strong>API Key</strong> from the output
-                </li>
-                <li>Paste them above and click Save</li>
-              </ol>
-            </div>
-            <div className="modal-actions">
-              <button
-                className="btn btn-secondary"
-                onClick={() => setShowSettings(false)}
-              >
-                Cancel
-              </button>
-              <button className="btn btn-primary" onClick={saveSettings}>
-                Save & Connect
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
     </div>
   );
 }
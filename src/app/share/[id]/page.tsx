@@ -0,0 +1,98 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import AttachmentList from "@/components/AttachmentList";
+import Markdown from "@/components/Markdown";
+import { displayModelName } from "@/lib/models";
+import { getShareStore, publicShare } from "@/lib/shareStore";
+
+interface SharePageProps {
+  params: Promise<{ id: string }>;
+}
+
+async function loadShare(id: string) {
+  const record = await getShareStore().get(id);
+  return record ? publicShare(record) : null;
+}
+
+export async function generateMetadata({
+  params,
+}: SharePageProps): Promise<Metadata> {
+  const share = await loadShare((await params).id);
+  return {
+    title: share ? `${share.title} — Qwen AI Chat` : "Share not found",
+    // Links are unlisted; keep them out of search results
+    robots: { index: false, follow: false },
+  };
+}
+
+// /share/:id — a read-only snapshot of a conversation
+export default async function SharePage({ params }: SharePageProps) {
+  const share = await loadShare((await params).id);
+  if (!share) notFound();
+
+  const dateFormat: Intl.DateTimeFormatOptions = {
+    dateStyle: "medium",
+    timeStyle: "short",
+  };
+
+  return (
+    <div className="app-shell">
+      <div className="app-container">
+        <header className="header">
+          <div className="header-left">
+            <div className="header-logo">🤖</div>
+            <div className="header-info">
+              <h1>{share.title}</h1>
+              <p>
+                {share.model && `${displayModelName(share.model)} · `}
+                Shared{" "}
+                {new Date(share.createdAt).toLocaleString("en", dateFormat)}
+                {share.expiresAt &&
+                  ` · expires ${new Date(share.expiresAt).toLocaleString("en", dateFormat)}`}
+              </p>
+            </div>
+          </div>
+          <div className="header-actions">
+            <Link className="btn btn-secondary" href="/">
+              Open the chat
+            </Link>
+          </div>
+        </header>
+
+        <div className="chat-area">
+          {share.messages.map((msg, i) => (
+            <div className={`message ${msg.role}`} key={i}>
+              <div className="message-avatar">
+                {msg.role === "assistant" ? "🤖" : "👤"}
+              </div>
+              <div className="message-body">
+                <div className="message-content">
+                  {msg.content.startsWith("⚠️") ? (
+                    <div className="error-toast">
+                      {msg.content.replace("⚠️ ", "")}
+                    </div>
+                  ) : (
+                    msg.content && <Markdown content={msg.content} />
+                  )}
+                  {msg.attachments && (
+                    <AttachmentList attachments={msg.attachments} />
+                  )}
+                  {msg.meta?.finishReason === "length" && (
+                    <div className="message-notice">
+                      ✂️ Truncated at max_tokens
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="share-footer">
+          Read-only snapshot — replies can&apos;t be continued from here.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { PARAM_LIMITS, ParamError } from "@/lib/chatParams";
+import { DEFAULT_MODEL_SETTINGS, ModelSettings } from "@/lib/conversations";
+import { ModelInfo, displayModelName } from "@/lib/models";
+import { DEFAULT_PRESET_ID, Preset, findPreset } from "@/lib/presets";
+import { CONTEXT_SIZE_LIMITS } from "@/lib/tokens";
+
+interface AdvancedSettingsProps {
+  settings: ModelSettings;
+  errors: ParamError[];
+  onChange: (settings: ModelSettings) => void;
+  models: ModelInfo[];
+  modelsLoading: boolean;
+  onRefreshModels: () => void;
+  presets: Preset[];
+  onManagePresets: () => void;
+}
+
+type NumericField =
+  | "temperature"
+  | "maxTokens"
+  | "contextSize"
+  | "topP"
+  | "presencePenalty"
+  | "seed";
+
+// Settings fields use camelCase; errors use the request-body names
+const NUMERIC_FIELDS: {
+  key: NumericField;
+  param: string;
+  limits: { min: number; max: number };
+  label: string;
+  step: number;
+  placeholder?: string;
+}[] = [
+  {
+    key: "temperature",
+    param: "temperature",
+    limits: PARAM_LIMITS.temperature,
+    label: "Temperature",
+    step: 0.1,
+  },
+  {
+    key: "maxTokens",
+    param: "max_tokens",
+    limits: PARAM_LIMITS.max_tokens,
+    label: "Max tokens",
+    step: 1,
+  },
+  {
+    key: "contextSize",
+    param: "contextSize",
+    limits: CONTEXT_SIZE_LIMITS,
+    label: "Context size",
+    step: 512,
+  },
+  {
+    key: "topP",
+    param: "top_p",
+    limits: PARAM_LIMITS.top_p,
+    label: "Top P",
+    step: 0.05,
+    placeholder: "server default",
+  },
+  {
+    key: "presencePenalty",
+    param: "presence_penalty",
+    limits: PARAM_LIMITS.presence_penalty,
+    label: "Presence penalty",
+    step: 0.1,
+    placeholder: "server default",
+  },
+  {
+    key: "seed",
+    param: "seed",
+    limits: PARAM_LIMITS.seed,
+    label: "Seed",
+    step: 1,
+    placeholder: "random",
+  },
+];
+
+export default function AdvancedSettings({
+  settings,
+  errors,
+  onChange,
+  models,
+  modelsLoading,
+  onRefreshModels,
+  presets,
+  onManagePresets,
+}: AdvancedSettingsProps) {
+  const errorFor = (field: string) =>
+    errors.find((e) => e.field === field)?.message;
+
+  const setNumber = (key: NumericField, value: string) => {
+    onChange({ ...settings, [key]: value === "" ? undefined : Number(value) });
+  };
+
+  const presetId = settings.presetId ?? DEFAULT_PRESET_ID;
+  const preset = findPreset(presets, presetId);
+  const choosePreset = (id: string) => {
+    const chosen = findPreset(presets, id);
+    if (chosen) {
+      onChange({
+        ...settings,
+        presetId: id,
+        systemPrompt: chosen.systemPrompt,
+      });
+    }
+  };
+
+  return (
+    <details className="advanced-settings" open={errors.length > 0}>
+      <summary>Advanced — this conversation</summary>
+      <div className="form-group">
+        <label htmlFor="model-input">Model</label>
+        <div className="input-row">
+          {models.length > 0 ? (
+            <select
+              id="model-input"
+              value={settings.model}
+              onChange={(e) => onChange({ ...settings, model: e.target.value })}
+            >
+              {!models.some((m) => m.id === settings.model) && (
+                <option value={settings.model}>
+                  {settings.model} (not served)
+                </option>
+              )}
+              {models.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {displayModelName(m.id)}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              id="model-input"
+              type="text"
+              value={settings.model}
+              onChange={(e) => onChange({ ...settings, model: e.target.value })}
+              placeholder={DEFAULT_MODEL_SETTINGS.model}
+            />
+          )}
+          <button
+            type="button"
+            className="icon-btn"
+            onClick={onRefreshModels}
+            disabled={modelsLoading}
+            title="Load models from the server"
+          >
+            {modelsLoading ? "…" : "↻"}
+          </button>
+        </div>
+        {errorFor("model") && <p className="hint error">{errorFor("model")}</p>}
+      </div>
+      <div className="form-group">
+        <label htmlFor="preset-input">Preset</label>
+        <div className="input-row">
+          <select
+            id="preset-input"
+            value={preset ? presetId : ""}
+            onChange={(e) => choosePreset(e.target.value)}
+          >
+            {!preset && <option value="">(deleted preset)</option>}
+            {presets.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="icon-btn"
+            onClick={onManagePresets}
+            title="Create, edit, import and export presets"
+          >
+            ✎
+          </button>
+        </div>
+        {preset && preset.systemPrompt !== settings.systemPrompt && (
+          <p className="hint">
+            The system prompt below was edited after picking “{preset.name}”.
+          </p>
+        )}
+      </div>
+      <div className="form-group">
+        <label htmlFor="system-prompt-input">System prompt</label>
+        <textarea
+          id="system-prompt-input"
+          rows={3}
+          value={settings.systemPrompt}
+          onChange={(e) =>
+            onChange({ ...settings, systemPrompt: e.target.value })
+          }
+        />
+        {errorFor("systemPrompt") && (
+          <p className="hint error">{errorFor("systemPrompt")}</p>
+        )}
+      </div>
+      <div className="form-grid">
+        {NUMERIC_FIELDS.map(
+          ({ key, param, limits, label, step, placeholder }) => (
+            <div className="form-group" key={key}>
+              <label htmlFor={`${key}-input`}>{label}</label>
+              <input
+                id={`${key}-input`}
+                type="number"
+                min={limits.min}
+                max={limits.max}
+                step={step}
+                value={settings[key] ?? ""}
+                onChange={(e) => setNumber(key, e.target.value)}
+                placeholder={placeholder}
+              />
+              {errorFor(param) && (
+                <p className="hint error">{errorFor(param)}</p>
+              )}
+            </div>
+          ),
+        )}
+      </div>
+      <div className="form-group">
+        <label htmlFor="stop-input">Stop sequences</label>
+        <textarea
+          id="stop-input"
+          rows={2}
+          value={(settings.stop || []).join("\n")}
+          onChange={(e) =>
+            onChange({
+              ...settings,
+              stop: e.target.value ? e.target.value.split("\n") : [],
+            })
+          }
+          placeholder="One per line"
+        />
+        {errorFor("stop") && <p className="hint error">{errorFor("stop")}</p>}
+      </div>
+      <div className="form-group">
+        <div className="checkbox-list">
+          <label>
+            <input
+              type="checkbox"
+              checked={settings.tools ?? false}
+              onChange={(e) =>
+                onChange({ ...settings, tools: e.target.checked })
+              }
+            />
+            Enable tools
+          </label>
+        </div>
+        <p className="hint">
+          The model may run the calculator and any tools the server has
+          configured (URL fetching, workspace files) before answering.
+        </p>
+      </div>
+      <button
+        type="button"
+        className="btn btn-secondary"
+        onClick={() => onChange({ ...DEFAULT_MODEL_SETTINGS })}
+      >
+        Reset to defaults
+      </button>
+    </details>
+  );
+}
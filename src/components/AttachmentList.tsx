@@ -0,0 +1,47 @@
+"use client";
+
+import { Attachment, formatSize } from "@/lib/attachments";
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  /** Shows a remove button on each chip (the composer). */
+  onRemove?: (index: number) => void;
+}
+
+export default function AttachmentList({
+  attachments,
+  onRemove,
+}: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="attachment-list">
+      {attachments.map((a, i) => (
+        <div
+          className={`attachment-chip ${a.kind}`}
+          key={`${a.name}-${i}`}
+          title={`${a.name} · ${formatSize(a.size)}`}
+        >
+          {a.kind === "image" ? (
+            // Data URLs gain nothing from next/image optimisation
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={a.dataUrl} alt={a.name} />
+          ) : (
+            <span className="attachment-icon">📄</span>
+          )}
+          <span className="attachment-name">{a.name}</span>
+          <span className="attachment-size">{formatSize(a.size)}</span>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(i)}
+              title={`Remove ${a.name}`}
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
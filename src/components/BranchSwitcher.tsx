@@ -0,0 +1,39 @@
+"use client";
+
+import { BranchPosition } from "@/lib/branches";
+
+interface BranchSwitcherProps {
+  /** Null when the message has no other versions. */
+  position: BranchPosition | null;
+  onSwitch: (to: number) => void;
+}
+
+/** "‹ 2/3 ›" between the versions of a message left by edits and retries. */
+export default function BranchSwitcher({
+  position,
+  onSwitch,
+}: BranchSwitcherProps) {
+  if (!position) return null;
+  const { index, count } = position;
+  return (
+    <span className="branch-switcher">
+      <button
+        onClick={() => onSwitch(index - 1)}
+        disabled={index === 0}
+        title="Previous version"
+        aria-label="Previous version"
+      >
+        ‹
+      </button>
+      {index + 1}/{count}
+      <button
+        onClick={() => onSwitch(index + 1)}
+        disabled={index === count - 1}
+        title="Next version"
+        aria-label="Next version"
+      >
+        ›
+      </button>
+    </span>
+  );
+}
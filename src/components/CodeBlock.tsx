@@ -0,0 +1,164 @@
+"use client";
+
+import { createContext, useContext, useState, ReactNode } from "react";
+import {
+  RUN_TIMEOUT_MS,
+  RunResult,
+  isRunnable,
+  runCode,
+  runReport,
+} from "@/lib/sandbox";
+
+interface CodeBlockProps {
+  language: string | null;
+  code: string;
+  children: ReactNode;
+}
+
+/**
+ * Sends a follow-up message to the model. Provided by the chat page; without
+ * it (the share page) run output can't be sent back.
+ */
+export const SendToModelContext = createContext<
+  ((text: string) => void) | null
+>(null);
+
+// File extensions for the "download" button; anything else falls back to .txt
+const EXTENSIONS: Record<string, string> = {
+  bash: "sh",
+  c: "c",
+  cpp: "cpp",
+  csharp: "cs",
+  css: "css",
+  go: "go",
+  html: "html",
+  java: "java",
+  javascript: "js",
+  js: "js",
+  json: "json",
+  jsx: "jsx",
+  kotlin: "kt",
+  markdown: "md",
+  php: "php",
+  python: "py",
+  py: "py",
+  ruby: "rb",
+  rust: "rs",
+  sh: "sh",
+  shell: "sh",
+  sql: "sql",
+  swift: "swift",
+  ts: "ts",
+  tsx: "tsx",
+  typescript: "ts",
+  xml: "xml",
+  yaml: "yml",
+  yml: "yml",
+};
+
+export default function CodeBlock({
+  language,
+  code,
+  children,
+}: CodeBlockProps) {
+  const [copied, setCopied] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<RunResult | null>(null);
+  const sendToModel = useContext(SendToModelContext);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard is unavailable outside secure contexts — nothing to do
+    }
+  };
+
+  const download = () => {
+    const ext = (language && EXTENSIONS[language.toLowerCase()]) || "txt";
+    const url = URL.createObjectURL(new Blob([code], { type: "text/plain" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `snippet.${ext}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const run = async () => {
+    if (!language) return;
+    setRunning(true);
+    setResult(await runCode(code, language));
+    setRunning(false);
+  };
+
+  const failed =
+    result &&
+    (result.error ||
+      result.timedOut ||
+      result.output.some((l) => l.stream === "stderr"));
+
+  return (
+    <div className="code-block">
+      <div className="code-block-header">
+        <span className="code-block-lang">{language || "text"}</span>
+        <span className="code-block-actions">
+          {isRunnable(language) && (
+            <button
+              onClick={run}
+              disabled={running}
+              title="Run in a sandbox in your browser"
+            >
+              {running ? "⏳ Running…" : "▶ Run"}
+            </button>
+          )}
+          <button onClick={copy} title="Copy code">
+            {copied ? "✓ Copied" : "📋 Copy"}
+          </button>
+          <button onClick={download} title="Download as file">
+            ⬇️ Download
+          </button>
+        </span>
+      </div>
+      <pre>{children}</pre>
+      {result && (
+        <div className="code-output">
+          {result.output.map((line, i) => (
+            <div key={i} className={`code-output-line ${line.stream}`}>
+              {line.text}
+            </div>
+          ))}
+          {result.truncated && (
+            <div className="code-output-line">…(output truncated)</div>
+          )}
+          {result.error && (
+            <div className="code-output-line stderr">{result.error}</div>
+          )}
+          <div className="code-output-footer">
+            <span>
+              {result.timedOut
+                ? `Stopped after ${RUN_TIMEOUT_MS / 1000} s`
+                : `${failed ? "Failed" : "Finished"} in ${result.durationMs} ms`}
+            </span>
+            <span className="code-block-actions">
+              {sendToModel && (
+                <button
+                  onClick={() =>
+                    sendToModel(runReport(code, language || "", result))
+                  }
+                  title="Send this output to the model as a follow-up"
+                >
+                  ↩ Send to model
+                </button>
+              )}
+              <button onClick={() => setResult(null)} title="Hide output">
+                ✕
+              </button>
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { Completion } from "@/lib/commands";
+
+interface CommandMenuProps {
+  items: Completion[];
+  /** Index of the highlighted item; -1 for none. */
+  selected: number;
+  /** Heading shown above the list, as for /help. */
+  title?: string;
+  onPick: (item: Completion) => void;
+}
+
+/** Slash-command autocomplete (and the /help list) above the composer. */
+export default function CommandMenu({
+  items,
+  selected,
+  title,
+  onPick,
+}: CommandMenuProps) {
+  if (items.length === 0) return null;
+  return (
+    <div className="command-menu" role="listbox" aria-label="Slash commands">
+      {title && <div className="command-menu-title">{title}</div>}
+      {items.map((item, i) => (
+        <button
+          key={item.value}
+          type="button"
+          role="option"
+          aria-selected={i === selected}
+          className={`command-item${i === selected ? " selected" : ""}`}
+          // Keep focus in the composer
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(item)}
+        >
+          <code>{item.label}</code>
+          {item.description && <span>{item.description}</span>}
+        </button>
+      ))}
+    </div>
+  );
+}
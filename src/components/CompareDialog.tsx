@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_COMPARE_COLUMNS } from "@/lib/compare";
+import { CompareTarget } from "@/lib/conversations";
+import { ModelInfo, displayModelName } from "@/lib/models";
+
+interface CompareDialogProps {
+  /** The chat's current targets; compare mode is off without them. */
+  targets: CompareTarget[] | undefined;
+  profiles: { id: string; label: string }[];
+  /** The chat's own model, used by columns that leave theirs empty. */
+  chatModel: string;
+  /** What the chat's backend serves, offered as model suggestions. */
+  models: ModelInfo[];
+  onSave: (targets: CompareTarget[] | undefined) => void;
+  onClose: () => void;
+}
+
+type Draft = Pick<CompareTarget, "profileId" | "model">;
+
+export default function CompareDialog({
+  targets,
+  profiles,
+  chatModel,
+  models,
+  onSave,
+  onClose,
+}: CompareDialogProps) {
+  const [columns, setColumns] = useState<Draft[]>(
+    targets?.map(({ profileId, model }) => ({ profileId, model })) ?? [
+      { profileId: "", model: "" },
+      // Start with a second backend when there is one to compare against
+      { profileId: profiles[1]?.id ?? "", model: "" },
+    ],
+  );
+
+  const update = (i: number, change: Partial<Draft>) =>
+    setColumns(columns.map((c, j) => (j === i ? { ...c, ...change } : c)));
+
+  const save = () => {
+    onSave(
+      columns.map(({ profileId, model }) => {
+        const backend = profiles.find((p) => p.id === profileId)?.label;
+        const trimmed = model.trim();
+        return {
+          profileId,
+          model: trimmed,
+          label: `${backend ?? "This chat's backend"} · ${displayModelName(trimmed || chatModel)}`,
+        };
+      }),
+    );
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <h2>⚖️ Compare</h2>
+        <p className="modal-desc">
+          Send each prompt in this chat to several backends or models at once
+          and see the answers side by side. Vote for the better one — the chat
+          carries on with it, and votes export as preference pairs.
+        </p>
+
+        <datalist id="compare-models">
+          {models.map((m) => (
+            <option key={m.id} value={m.id} />
+          ))}
+        </datalist>
+        {columns.map((column, i) => (
+          <div className="form-group compare-column" key={i}>
+            <label htmlFor={`compare-backend-${i}`}>Column {i + 1}</label>
+            <div className="input-row">
+              <select
+                id={`compare-backend-${i}`}
+                value={column.profileId}
+                onChange={(e) => update(i, { profileId: e.target.value })}
+              >
+                <option value="">This chat&apos;s backend</option>
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={column.model}
+                onChange={(e) => update(i, { model: e.target.value })}
+                placeholder={displayModelName(chatModel)}
+                list="compare-models"
+                aria-label={`Column ${i + 1} model`}
+              />
+              <button
+                type="button"
+                className="icon-btn"
+                onClick={() => setColumns(columns.filter((_, j) => j !== i))}
+                disabled={columns.length <= 2}
+                title="Remove this column"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+        <p className="hint">
+          Leave the model empty to use this chat&apos;s model. Columns
+          don&apos;t fail over, so each answer really comes from the backend
+          named above it.
+        </p>
+
+        <div className="modal-actions">
+          <button
+            className="btn btn-secondary"
+            onClick={() =>
+              setColumns([...columns, { profileId: "", model: "" }])
+            }
+            disabled={columns.length >= MAX_COMPARE_COLUMNS}
+          >
+            Add column
+          </button>
+          {targets && (
+            <button
+              className="btn btn-secondary"
+              onClick={() => {
+                onSave(undefined);
+                onClose();
+              }}
+            >
+              Turn off
+            </button>
+          )}
+          <button className="btn btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={save}>
+            {targets ? "Save" : "Start comparing"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import Markdown from "@/components/Markdown";
+import { Comparison } from "@/lib/conversations";
+
+interface ComparisonViewProps {
+  comparison: Comparison;
+  /** Columns still streaming show a typing indicator while empty. */
+  streaming: boolean;
+  /** Omitted while a reply streams, so votes wait for every column. */
+  onVote?: (answer: number) => void;
+}
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+export default function ComparisonView({
+  comparison,
+  streaming,
+  onVote,
+}: ComparisonViewProps) {
+  return (
+    <div className="comparison">
+      {comparison.answers.map((answer, i) => {
+        const preferred = comparison.preferred === i;
+        const done = answer.durationMs !== undefined;
+        return (
+          <div
+            key={i}
+            className={`comparison-column${preferred ? " preferred" : ""}`}
+          >
+            <div className="comparison-label" title={answer.model}>
+              {answer.label}
+            </div>
+            <div className="comparison-answer">
+              {answer.content ? (
+                <Markdown content={answer.content} />
+              ) : (
+                streaming &&
+                !done && (
+                  <div className="typing-indicator">
+                    <span className="typing-dot"></span>
+                    <span className="typing-dot"></span>
+                    <span className="typing-dot"></span>
+                  </div>
+                )
+              )}
+              {answer.meta?.finishReason === "length" && (
+                <div className="message-notice">✂️ Truncated at max_tokens</div>
+              )}
+              {answer.meta?.error && (
+                <div className="error-toast">{answer.meta.error}</div>
+              )}
+            </div>
+            <div className="comparison-footer">
+              <span className="message-usage">
+                {[
+                  answer.ttftMs !== undefined &&
+                    `first token ${seconds(answer.ttftMs)}`,
+                  done && `total ${seconds(answer.durationMs!)}`,
+                  answer.meta?.usage &&
+                    `${answer.meta.usage.completionTokens} tokens`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </span>
+              {onVote && answer.content && (
+                <button
+                  className={`btn btn-secondary comparison-vote${preferred ? " active" : ""}`}
+                  onClick={() => onVote(i)}
+                  title="Carry on with this answer and record it as the better one"
+                >
+                  {preferred ? "✅ Preferred" : "👍 Better"}
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useRef, useState, KeyboardEvent } from "react";
+import { Conversation, searchConversations } from "@/lib/conversations";
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  open: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  /** A JSON or JSONL export picked for import. */
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+export default function ConversationSidebar({
+  conversations,
+  activeId,
+  open,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onImport,
+  onClose,
+}: ConversationSidebarProps) {
+  const [query, setQuery] = useState("");
+  const importRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+
+  const visible = searchConversations(conversations, query);
+
+  const startRename = (c: Conversation) => {
+    setEditingId(c.id);
+    setEditTitle(c.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && editTitle.trim()) {
+      onRename(editingId, editTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleRenameKey = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") commitRename();
+    if (e.key === "Escape") setEditingId(null);
+  };
+
+  return (
+    <aside className={`sidebar ${open ? "open" : ""}`} id="sidebar">
+      <div className="sidebar-header">
+        <button className="btn btn-primary sidebar-new" onClick={onNew}>
+          ＋ New chat
+        </button>
+        <button
+          className="icon-btn"
+          onClick={() => importRef.current?.click()}
+          title="Import conversations (JSON or JSONL)"
+        >
+          📥
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept=".json,.jsonl,application/json"
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = "";
+          }}
+        />
+        <button
+          className="icon-btn sidebar-close"
+          onClick={onClose}
+          title="Close sidebar"
+        >
+          ✕
+        </button>
+      </div>
+      <input
+        className="sidebar-search"
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search conversations..."
+        id="conversation-search"
+      />
+      <ul className="conversation-list">
+        {visible.map((c) => (
+          <li
+            key={c.id}
+            className={`conversation-item ${c.id === activeId ? "active" : ""}`}
+            onClick={() => editingId !== c.id && onSelect(c.id)}
+          >
+            {editingId === c.id ? (
+              <input
+                className="conversation-rename"
+                value={editTitle}
+                onChange={(e) => setEditTitle(e.target.value)}
+                onKeyDown={handleRenameKey}
+                onBlur={commitRename}
+                autoFocus
+              />
+            ) : (
+              <>
+                <span className="conversation-title" title={c.title}>
+                  {c.title}
+                </span>
+                <span className="conversation-actions">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startRename(c);
+                    }}
+                    title="Rename"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (confirm(`Delete "${c.title}"?`)) onDelete(c.id);
+                    }}
+                    title="Delete"
+                  >
+                    🗑️
+                  </button>
+                </span>
+              </>
+            )}
+          </li>
+        ))}
+        {visible.length === 0 && (
+          <li className="conversation-empty">
+            {query ? "No matching conversations" : "No conversations yet"}
+          </li>
+        )}
+      </ul>
+    </aside>
+  );
+}
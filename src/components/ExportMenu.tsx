@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Conversation } from "@/lib/conversations";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  downloadText,
+  exportConversation,
+  hasPreferences,
+} from "@/lib/transcripts";
+
+interface ExportMenuProps {
+  /** null while there is nothing to export. */
+  conversation: Conversation | null;
+}
+
+export default function ExportMenu({ conversation }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on any click outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const exportAs = (format: ExportFormat) => {
+    if (!conversation) return;
+    const { filename, text, mime } = exportConversation(conversation, format);
+    downloadText(filename, text, mime);
+    setOpen(false);
+  };
+
+  return (
+    <div className="export-menu" ref={menuRef}>
+      <button
+        className="icon-btn"
+        onClick={() => setOpen(!open)}
+        disabled={!conversation}
+        title="Export conversation"
+        id="export-btn"
+      >
+        📤
+      </button>
+      {open && (
+        <div className="export-menu-list">
+          {EXPORT_FORMATS.filter(
+            ({ format }) =>
+              format !== "preferences" ||
+              (conversation && hasPreferences(conversation)),
+          ).map(({ format, label }) => (
+            <button key={format} onClick={() => exportAs(format)}>
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  KnowledgeBaseLink,
+  deleteKnowledgeBase,
+  fetchKnowledgeBases,
+  loadKnowledgeBases,
+  saveKnowledgeBases,
+  uploadKnowledgeBase,
+} from "@/lib/knowledge";
+
+interface KnowledgeDialogProps {
+  /** The knowledge base the active conversation uses. */
+  selectedId?: string;
+  onSelect: (id: string | undefined) => void;
+  onClose: () => void;
+}
+
+export default function KnowledgeDialog({
+  selectedId,
+  onSelect,
+  onClose,
+}: KnowledgeDialogProps) {
+  const [bases, setBases] = useState<KnowledgeBaseLink[] | null>(null);
+  const [name, setName] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const updateBases = (next: KnowledgeBaseLink[]) => {
+    setBases(next);
+    saveKnowledgeBases(next);
+  };
+
+  useEffect(() => {
+    const remembered = loadKnowledgeBases();
+    fetchKnowledgeBases(remembered)
+      .then((found) => {
+        setBases(found);
+        // Forget bases that were deleted elsewhere or lost with the server's disk
+        saveKnowledgeBases(found);
+      })
+      .catch((err) => {
+        setBases(remembered);
+        setError(err.message);
+      });
+  }, []);
+
+  const pick = (list: FileList | null) => {
+    setFiles(list ? Array.from(list) : []);
+    setNotice(null);
+  };
+
+  const upload = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { skipped, ...base } = await uploadKnowledgeBase(name, files);
+      updateBases([base, ...(bases || [])]);
+      setNotice(
+        `Indexed ${base.files} files into ${base.chunks} excerpts` +
+          (skipped ? ` (${skipped} binary or oversized skipped)` : ""),
+      );
+      setName("");
+      setFiles([]);
+      onSelect(base.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (base: KnowledgeBaseLink) => {
+    if (!confirm(`Delete "${base.name}"?`)) return;
+    setError(null);
+    try {
+      await deleteKnowledgeBase(base);
+      updateBases((bases || []).filter((b) => b.id !== base.id));
+      if (selectedId === base.id) onSelect(undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't delete it");
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <h2>📚 Knowledge</h2>
+        <p className="modal-desc">
+          Upload project files and the most relevant excerpts are added to every
+          question in this chat, with file and line citations.
+        </p>
+
+        <div className="form-group">
+          <label>Use in this chat</label>
+          {bases === null ? (
+            <p className="hint">Loading…</p>
+          ) : (
+            <div className="checkbox-list">
+              <label>
+                <input
+                  type="radio"
+                  name="knowledge-base"
+                  checked={!selectedId}
+                  onChange={() => onSelect(undefined)}
+                />
+                None
+              </label>
+              {bases.map((base) => (
+                <label key={base.id} className="knowledge-base">
+                  <input
+                    type="radio"
+                    name="knowledge-base"
+                    checked={selectedId === base.id}
+                    onChange={() => onSelect(base.id)}
+                  />
+                  <span className="knowledge-base-name">{base.name}</span>
+                  <span className="hint">
+                    {base.files} files · {base.chunks} excerpts
+                  </span>
+                  <button
+                    type="button"
+                    className="icon-btn"
+                    onClick={() => remove(base)}
+                    title={`Delete ${base.name}`}
+                  >
+                    🗑️
+                  </button>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="knowledge-name">Add a knowledge base</label>
+          <input
+            id="knowledge-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (defaults to the folder name)"
+          />
+          <div className="input-row knowledge-pickers">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Files or .zip
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => folderInputRef.current?.click()}
+            >
+              Folder
+            </button>
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={upload}
+              disabled={busy || files.length === 0}
+            >
+              {busy ? "Indexing…" : "Upload"}
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            hidden
+            onChange={(e) => pick(e.target.files)}
+          />
+          <input
+            ref={(el) => {
+              folderInputRef.current = el;
+              el?.setAttribute("webkitdirectory", "");
+            }}
+            type="file"
+            hidden
+            onChange={(e) => pick(e.target.files)}
+          />
+          <p className="hint">
+            {files.length > 0
+              ? `${files.length} file${files.length === 1 ? "" : "s"} selected`
+              : "Text files only; node_modules, .git and build output are skipped."}
+          </p>
+        </div>
+        {notice && <p className="hint connection-test ok">{notice}</p>}
+        {error && <p className="hint connection-test failed">{error}</p>}
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
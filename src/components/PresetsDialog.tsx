@@ -0,0 +1,257 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  BUILT_IN_PRESETS,
+  MAX_SUGGESTIONS,
+  Preset,
+  exportPresets,
+  findPreset,
+  newPresetId,
+  parsePresets,
+  presetError,
+} from "@/lib/presets";
+import { downloadText } from "@/lib/transcripts";
+
+interface PresetsDialogProps {
+  /** The user's own presets; built-ins are always listed first. */
+  custom: Preset[];
+  onChange: (custom: Preset[]) => void;
+  onClose: () => void;
+}
+
+export default function PresetsDialog({
+  custom,
+  onChange,
+  onClose,
+}: PresetsDialogProps) {
+  const all = [...BUILT_IN_PRESETS, ...custom];
+  const [selectedId, setSelectedId] = useState(all[0].id);
+  // A copy being edited; the list entry stays untouched until Save
+  const [draft, setDraft] = useState<Preset | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const selected = findPreset(all, selectedId) ?? all[0];
+  const shown = draft ?? selected;
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setDraft(null);
+    setError(null);
+  };
+
+  const startDraft = (preset: Preset) => {
+    setDraft(preset);
+    setSelectedId(preset.id);
+    setError(null);
+    setNotice(null);
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const problem = presetError(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const exists = custom.some((p) => p.id === draft.id);
+    onChange(
+      exists
+        ? custom.map((p) => (p.id === draft.id ? draft : p))
+        : [...custom, draft],
+    );
+    setDraft(null);
+    setError(null);
+  };
+
+  const remove = () => {
+    if (!confirm(`Delete the preset "${selected.name}"?`)) return;
+    onChange(custom.filter((p) => p.id !== selected.id));
+    select(all[0].id);
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const imported = parsePresets(await file.text());
+      onChange([...custom, ...imported]);
+      setNotice(
+        `Imported ${imported.length} preset${imported.length === 1 ? "" : "s"}`,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <h2>🎭 Presets</h2>
+        <p className="modal-desc">
+          Named system prompts with their own welcome suggestions. Pick one per
+          chat under ⚙️ → Advanced; edits apply when a preset is picked again.
+        </p>
+
+        <div className="preset-list">
+          {all.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              className={`preset-chip${p.id === selectedId ? " active" : ""}`}
+              onClick={() => select(p.id)}
+              disabled={draft !== null && p.id !== draft.id}
+            >
+              {p.builtIn && "🔒 "}
+              {p.name}
+            </button>
+          ))}
+          {draft && !all.some((p) => p.id === draft.id) && (
+            <button type="button" className="preset-chip active">
+              {draft.name || "New preset"}
+            </button>
+          )}
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="preset-name">Name</label>
+          <input
+            id="preset-name"
+            type="text"
+            value={shown.name}
+            readOnly={!draft}
+            onChange={(e) =>
+              draft && setDraft({ ...draft, name: e.target.value })
+            }
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="preset-prompt">System prompt</label>
+          <textarea
+            id="preset-prompt"
+            rows={5}
+            value={shown.systemPrompt}
+            readOnly={!draft}
+            onChange={(e) =>
+              draft && setDraft({ ...draft, systemPrompt: e.target.value })
+            }
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="preset-suggestions">Welcome suggestions</label>
+          <textarea
+            id="preset-suggestions"
+            rows={4}
+            value={shown.suggestions.join("\n")}
+            readOnly={!draft}
+            onChange={(e) =>
+              draft &&
+              setDraft({
+                ...draft,
+                suggestions: e.target.value
+                  ? e.target.value.split("\n").slice(0, MAX_SUGGESTIONS)
+                  : [],
+              })
+            }
+            placeholder={`One per line, up to ${MAX_SUGGESTIONS}`}
+          />
+        </div>
+        {notice && <p className="hint connection-test ok">{notice}</p>}
+        {error && <p className="hint connection-test failed">{error}</p>}
+
+        <div className="modal-actions preset-actions">
+          {draft ? (
+            <>
+              <button
+                className="btn btn-secondary"
+                onClick={() => select(selected.id)}
+              >
+                Cancel
+              </button>
+              <button className="btn btn-primary" onClick={save}>
+                Save
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                className="btn btn-secondary"
+                onClick={() =>
+                  startDraft({
+                    id: newPresetId(),
+                    name: "",
+                    systemPrompt: "",
+                    suggestions: [],
+                  })
+                }
+              >
+                New
+              </button>
+              <button
+                className="btn btn-secondary"
+                onClick={() =>
+                  startDraft({
+                    ...selected,
+                    id: newPresetId(),
+                    name: `${selected.name} (copy)`,
+                    builtIn: undefined,
+                  })
+                }
+              >
+                Duplicate
+              </button>
+              {!selected.builtIn && (
+                <>
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => startDraft({ ...selected })}
+                  >
+                    Edit
+                  </button>
+                  <button className="btn btn-secondary" onClick={remove}>
+                    Delete
+                  </button>
+                </>
+              )}
+              <button
+                className="btn btn-secondary"
+                onClick={() => importRef.current?.click()}
+              >
+                Import
+              </button>
+              <button
+                className="btn btn-secondary"
+                onClick={() =>
+                  downloadText(
+                    "presets.json",
+                    exportPresets(custom),
+                    "application/json",
+                  )
+                }
+                disabled={custom.length === 0}
+                title="Download your own presets as JSON"
+              >
+                Export
+              </button>
+              <button className="btn btn-primary" onClick={onClose}>
+                Done
+              </button>
+            </>
+          )}
+          <input
+            ref={importRef}
+            type="file"
+            accept=".json,application/json"
+            hidden
+            onChange={(e) => {
+              importFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { QueueMode, QueuedRequest } from "@/lib/queue";
+
+interface QueueListProps {
+  /** Waiting prompts, next first. */
+  items: QueuedRequest[];
+  mode: QueueMode;
+  onModeChange: (mode: QueueMode) => void;
+  onCancel: (id: string) => void;
+  onEdit: (id: string, text: string) => void;
+  /** Stop the reply that is streaming and answer this prompt next. */
+  onSendNow: (id: string) => void;
+}
+
+export default function QueueList({
+  items,
+  mode,
+  onModeChange,
+  onCancel,
+  onEdit,
+  onSendNow,
+}: QueueListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  if (items.length === 0) return null;
+
+  const save = () => {
+    if (editingId && draft.trim()) onEdit(editingId, draft);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="queue-list">
+      <div className="queue-header">
+        <span>
+          ⏳ {items.length} waiting
+          {mode === "batch" &&
+            items.length > 1 &&
+            " — sent together as one message"}
+        </span>
+        <div className="queue-mode" role="group" aria-label="Queue mode">
+          {(["sequential", "batch"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              className={mode === m ? "active" : ""}
+              onClick={() => onModeChange(m)}
+              title={
+                m === "sequential"
+                  ? "Answer waiting prompts one by one"
+                  : "Merge waiting prompts into one turn"
+              }
+            >
+              {m === "sequential" ? "One by one" : "Batch"}
+            </button>
+          ))}
+        </div>
+      </div>
+      {items.map((item) => (
+        <div className="queue-item" key={item.id}>
+          {editingId === item.id ? (
+            <div className="message-edit">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={2}
+                autoFocus
+              />
+              <div className="message-edit-actions">
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => setEditingId(null)}
+                >
+                  Cancel
+                </button>
+                <button className="btn btn-primary" onClick={save}>
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <span className="queue-text" title={item.prompt?.text}>
+                {item.prompt?.text.split("\n")[0] ||
+                  item.prompt?.attachments?.[0]?.name}
+              </span>
+              {item.prompt?.attachments?.length ? (
+                <span className="queue-attachments">
+                  📎 {item.prompt.attachments.length}
+                </span>
+              ) : null}
+              <div className="queue-actions">
+                <button
+                  onClick={() => {
+                    setEditingId(item.id);
+                    setDraft(item.prompt?.text ?? "");
+                  }}
+                  title="Edit before it's sent"
+                >
+                  ✏️
+                </button>
+                <button
+                  onClick={() => onSendNow(item.id)}
+                  title="Stop the current reply and send this now"
+                >
+                  ⏩
+                </button>
+                <button onClick={() => onCancel(item.id)} title="Don't send">
+                  ✕
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
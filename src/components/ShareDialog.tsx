@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { Conversation } from "@/lib/conversations";
+import {
+  SHARE_EXPIRY_OPTIONS,
+  ShareLink,
+  createShareLink,
+  deleteShareLink,
+  loadShareLinks,
+  saveShareLinks,
+} from "@/lib/shares";
+
+interface ShareDialogProps {
+  conversation: Conversation;
+  onClose: () => void;
+}
+
+export default function ShareDialog({
+  conversation,
+  onClose,
+}: ShareDialogProps) {
+  const [links, setLinks] = useState<ShareLink[]>(loadShareLinks);
+  const [expiresIn, setExpiresIn] = useState<number>(
+    SHARE_EXPIRY_OPTIONS[2].seconds,
+  );
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const mine = links.filter((l) => l.conversationId === conversation.id);
+
+  const updateLinks = (next: ShareLink[]) => {
+    setLinks(next);
+    saveShareLinks(next);
+  };
+
+  const create = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const link = await createShareLink(conversation, expiresIn);
+      updateLinks([link, ...links]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't create a link");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (link: ShareLink) => {
+    setError(null);
+    try {
+      await deleteShareLink(link);
+      updateLinks(links.filter((l) => l.id !== link.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't delete the link");
+    }
+  };
+
+  const copy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 1500);
+    } catch {
+      // Clipboard is unavailable outside secure contexts — the URL is selectable
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <h2>🔗 Share conversation</h2>
+        <p className="modal-desc">
+          Anyone with the link sees a read-only snapshot of this chat as it is
+          now. Backend URLs and API keys are never included.
+        </p>
+        <div className="form-group">
+          <label htmlFor="share-expiry">Link expires</label>
+          <div className="input-row">
+            <select
+              id="share-expiry"
+              value={expiresIn}
+              onChange={(e) => setExpiresIn(Number(e.target.value))}
+            >
+              {SHARE_EXPIRY_OPTIONS.map((o) => (
+                <option key={o.seconds} value={o.seconds}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+            <button
+              className="btn btn-primary"
+              onClick={create}
+              disabled={busy}
+            >
+              {busy ? "Creating…" : "Create link"}
+            </button>
+          </div>
+        </div>
+        {error && <p className="hint connection-test failed">{error}</p>}
+        {mine.length > 0 && (
+          <ul className="share-links">
+            {mine.map((link) => (
+              <li key={link.id}>
+                <input
+                  readOnly
+                  value={link.url}
+                  onFocus={(e) => e.target.select()}
+                />
+                <span className="hint">
+                  {link.expiresAt
+                    ? `Expires ${new Date(link.expiresAt).toLocaleString()}`
+                    : "Never expires"}
+                </span>
+                <div className="share-link-actions">
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => copy(link)}
+                  >
+                    {copiedId === link.id ? "✓ Copied" : "Copy"}
+                  </button>
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => remove(link)}
+                  >
+                    Delete link
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { Chunk, citation } from "@/lib/retrieval";
+
+interface SourceListProps {
+  sources: Chunk[];
+}
+
+/** The knowledge-base excerpts a reply was given, expandable in place. */
+export default function SourceList({ sources }: SourceListProps) {
+  return (
+    <details className="message-sources">
+      <summary>
+        📚 {sources.length} excerpt{sources.length === 1 ? "" : "s"} used
+      </summary>
+      {sources.map((chunk) => (
+        <details key={citation(chunk)} className="message-source">
+          <summary>
+            <code>{citation(chunk)}</code>
+          </summary>
+          <pre>{chunk.text}</pre>
+        </details>
+      ))}
+    </details>
+  );
+}
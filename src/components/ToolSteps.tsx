@@ -0,0 +1,50 @@
+"use client";
+
+import { ToolStep } from "@/lib/conversations";
+
+interface ToolStepsProps {
+  steps: ToolStep[];
+}
+
+/** Pretty-print the model's JSON arguments, or show them as written. */
+function formatArguments(raw: string): string {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+export default function ToolSteps({ steps }: ToolStepsProps) {
+  return (
+    <div className="tool-steps">
+      {steps.map((step) => (
+        <details
+          key={step.id}
+          className={`tool-step${step.error ? " failed" : ""}`}
+        >
+          <summary>
+            🔧 <code>{step.name}</code>
+            <span className="tool-step-status">
+              {step.result === undefined
+                ? "running…"
+                : step.error
+                  ? "failed"
+                  : "done"}
+            </span>
+          </summary>
+          <div className="tool-step-label">Arguments</div>
+          <pre>{formatArguments(step.arguments)}</pre>
+          {step.result !== undefined && (
+            <>
+              <div className="tool-step-label">
+                {step.error ? "Error" : "Result"}
+              </div>
+              <pre>{step.result}</pre>
+            </>
+          )}
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * Files attached to a user message. Text files are inlined into the prompt
+ * as fenced blocks under their filename; images go to vision models as
+ * OpenAI-style `image_url` parts. Attachments stay on the message so the
+ * chat shows what was sent and a regenerate sends it again.
+ */
+
+export interface TextAttachment {
+  kind: "text";
+  name: string;
+  size: number;
+  /** Fence language, from the extension. */
+  language: string;
+  text: string;
+}
+
+export interface ImageAttachment {
+  kind: "image";
+  name: string;
+  size: number;
+  dataUrl: string;
+}
+
+export type Attachment = TextAttachment | ImageAttachment;
+
+export type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+/** A message's `content` as the OpenAI API takes it. */
+export type ApiContent = string | ContentPart[];
+
+export const MAX_ATTACHMENTS = 6;
+const MAX_TEXT_BYTES = 100 * 1024;
+// Images are kept in localStorage with the conversation, which holds about
+// 5 MB in all (base64 adds a third), so one message can't take most of it
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+export const MAX_MESSAGE_IMAGE_BYTES = 2 * 1024 * 1024;
+/** Pastes longer than this become a text attachment instead. */
+export const PASTE_AS_FILE_LINES = 40;
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+const LANGUAGES: Record<string, string> = {
+  c: "c",
+  cc: "cpp",
+  cpp: "cpp",
+  cs: "csharp",
+  css: "css",
+  go: "go",
+  h: "c",
+  hpp: "cpp",
+  html: "html",
+  java: "java",
+  js: "javascript",
+  json: "json",
+  jsx: "jsx",
+  kt: "kotlin",
+  md: "markdown",
+  php: "php",
+  py: "python",
+  rb: "ruby",
+  rs: "rust",
+  sh: "bash",
+  sql: "sql",
+  swift: "swift",
+  toml: "toml",
+  ts: "typescript",
+  tsx: "tsx",
+  xml: "xml",
+  yaml: "yaml",
+  yml: "yaml",
+};
+
+// Model ids that are known to accept image input
+const VISION_MODEL_PATTERN =
+  /(^|[-_./])vl([-_./]|$)|vision|llava|pixtral|minicpm-v|moondream|gemma-?3|gpt-4o/i;
+
+export function supportsVision(model: string): boolean {
+  return VISION_MODEL_PATTERN.test(model);
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function imageBytes(attachments: Attachment[]): number {
+  return attachments
+    .filter((a) => a.kind === "image")
+    .reduce((sum, a) => sum + a.size, 0);
+}
+
+/**
+ * An attachment rebuilt field by field from untrusted JSON (a share request,
+ * an imported file); null if it isn't one.
+ */
+export function parseAttachment(raw: Attachment): Attachment | null {
+  if (typeof raw?.name !== "string" || typeof raw.size !== "number") {
+    return null;
+  }
+  if (raw.kind === "text" && typeof raw.text === "string") {
+    return {
+      kind: "text",
+      name: raw.name,
+      size: raw.size,
+      language: typeof raw.language === "string" ? raw.language : "",
+      text: raw.text,
+    };
+  }
+  if (
+    raw.kind === "image" &&
+    typeof raw.dataUrl === "string" &&
+    raw.dataUrl.startsWith("data:image/")
+  ) {
+    return {
+      kind: "image",
+      name: raw.name,
+      size: raw.size,
+      dataUrl: raw.dataUrl,
+    };
+  }
+  return null;
+}
+
+/** Fence language for a file name, from its extension ("" if unknown). */
+export function languageFor(name: string): string {
+  const ext = name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+  return LANGUAGES[ext] || "";
+}
+
+export function textAttachment(name: string, text: string): TextAttachment {
+  return {
+    kind: "text",
+    name,
+    size: new Blob([text]).size,
+    language: languageFor(name),
+    text,
+  };
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Couldn't read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/** Read a dropped, pasted or picked file. Throws with a user-facing message. */
+export async function readAttachment(file: File): Promise<Attachment> {
+  if (IMAGE_TYPES.includes(file.type)) {
+    if (file.size > MAX_IMAGE_BYTES) {
+      throw new Error(
+        `${file.name} is ${formatSize(file.size)}; images can be at most ${formatSize(MAX_IMAGE_BYTES)}`,
+      );
+    }
+    return {
+      kind: "image",
+      name: file.name,
+      size: file.size,
+      dataUrl: await readAsDataUrl(file),
+    };
+  }
+
+  if (file.size > MAX_TEXT_BYTES) {
+    throw new Error(
+      `${file.name} is ${formatSize(file.size)}; text files can be at most ${formatSize(MAX_TEXT_BYTES)}`,
+    );
+  }
+  const text = await file.text();
+  // NUL bytes don't occur in source or logs; they do in binaries
+  if (text.includes("\0")) {
+    throw new Error(`${file.name} looks like a binary file`);
+  }
+  return { ...textAttachment(file.name, text), size: file.size };
+}
+
+/** `text` in a fenced code block that nothing inside it can close. */
+export function fenceBlock(text: string, info = ""): string {
+  // Outlast any backtick run in the text so it can't close the block early
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) || []).map((run) => run.length),
+  );
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}${info}\n${text.replace(/\n$/, "")}\n${fence}`;
+}
+
+/** A text attachment as it appears in the prompt. */
+export function inlineAttachment(attachment: TextAttachment): string {
+  return `**${attachment.name}**\n${fenceBlock(attachment.text, attachment.language)}`;
+}
+
+/**
+ * Build the content for one message. Without vision support, images are
+ * replaced by a note so the model at least knows something was attached.
+ */
+export function toApiContent(
+  message: { content: string; attachments?: Attachment[] },
+  vision: boolean,
+): ApiContent {
+  const attachments = message.attachments || [];
+  const images = attachments.filter(
+    (a): a is ImageAttachment => a.kind === "image",
+  );
+  const text = [
+    message.content,
+    ...attachments
+      .filter((a): a is TextAttachment => a.kind === "text")
+      .map(inlineAttachment),
+    ...(vision
+      ? []
+      : images.map((i) => `[Image ${i.name} not sent: model has no vision]`)),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  if (!vision || images.length === 0) return text;
+  return [
+    ...(text ? [{ type: "text" as const, text }] : []),
+    ...images.map((i) => ({
+      type: "image_url" as const,
+      image_url: { url: i.dataUrl },
+    })),
+  ];
+}
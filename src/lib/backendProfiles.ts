@@ -0,0 +1,221 @@
+import { readFileSync } from "fs";
+import { normalizeBaseUrl } from "@/lib/upstream";
+
+/**
+ * Server-side backend configuration. Keys never leave the server: the
+ * browser only ever sees profile ids and labels.
+ *
+ * Profiles come from (first match wins):
+ *   BACKEND_PROFILES       JSON array of { id, label?, url, apiKey? }
+ *   BACKEND_PROFILES_FILE  path to a JSON file with the same shape
+ *   API_URL (+ API_KEY)    a single profile with id "default"
+ *
+ * Forwarding to a browser-supplied URL is off unless ALLOW_CUSTOM_BACKENDS
+ * is "true", and then only to hosts matching CUSTOM_BACKEND_HOSTS
+ * (comma-separated, "*.example.com" matches subdomains).
+ */
+
+export interface BackendProfile {
+  id: string;
+  label: string;
+  url: string;
+  apiKey: string;
+}
+
+/** What a client may send to pick a backend. */
+export interface BackendRequest {
+  profileId?: string | null;
+  apiUrl?: string | null;
+  apiKey?: string | null;
+}
+
+export interface ResolvedBackend {
+  baseUrl: string;
+  apiKey: string;
+  /** null when the client supplied its own URL. */
+  profileId: string | null;
+  label: string;
+}
+
+export type ResolveResult =
+  | { ok: true; backend: ResolvedBackend }
+  | { ok: false; error: string; status: number };
+
+const DEFAULT_CUSTOM_HOSTS = [
+  "*.ngrok-free.app",
+  "*.ngrok-free.dev",
+  "*.ngrok.app",
+  "*.ngrok.io",
+];
+
+let cachedProfiles: BackendProfile[] | null = null;
+
+function parseProfiles(raw: string, source: string): BackendProfile[] {
+  const parsed = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${source} must be a JSON array of profiles`);
+  }
+  return parsed.map((p, i) => {
+    if (typeof p?.id !== "string" || typeof p?.url !== "string") {
+      throw new Error(`${source}[${i}] needs string "id" and "url" fields`);
+    }
+    return {
+      id: p.id,
+      label: typeof p.label === "string" ? p.label : p.id,
+      url: p.url,
+      apiKey: typeof p.apiKey === "string" ? p.apiKey : "",
+    };
+  });
+}
+
+export function loadProfiles(): BackendProfile[] {
+  if (cachedProfiles) return cachedProfiles;
+
+  if (process.env.BACKEND_PROFILES) {
+    cachedProfiles = parseProfiles(
+      process.env.BACKEND_PROFILES,
+      "BACKEND_PROFILES",
+    );
+  } else if (process.env.BACKEND_PROFILES_FILE) {
+    cachedProfiles = parseProfiles(
+      readFileSync(process.env.BACKEND_PROFILES_FILE, "utf8"),
+      "BACKEND_PROFILES_FILE",
+    );
+  } else if (process.env.API_URL) {
+    cachedProfiles = [
+      {
+        id: "default",
+        label: "Default",
+        url: process.env.API_URL,
+        apiKey: process.env.API_KEY || "",
+      },
+    ];
+  } else {
+    cachedProfiles = [];
+  }
+  return cachedProfiles;
+}
+
+export function customBackendsAllowed(): boolean {
+  return process.env.ALLOW_CUSTOM_BACKENDS === "true";
+}
+
+export function customBackendHosts(): string[] {
+  const configured = process.env.CUSTOM_BACKEND_HOSTS;
+  if (!configured) return DEFAULT_CUSTOM_HOSTS;
+  return configured
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** "*.example.com" matches subdomains; anything else matches exactly. */
+export function hostMatches(hostname: string, pattern: string): boolean {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+export function isHostAllowed(apiUrl: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(apiUrl);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return false;
+  // Credentials in the URL would be forwarded upstream verbatim
+  if (url.username || url.password) return false;
+  const hostname = url.hostname.toLowerCase();
+  return customBackendHosts().some((p) => hostMatches(hostname, p));
+}
+
+/** Profiles as the browser may see them — no URLs, no keys. */
+export function publicBackendConfig() {
+  return {
+    profiles: loadProfiles().map(({ id, label }) => ({ id, label })),
+    allowCustom: customBackendsAllowed(),
+    customHosts: customBackendsAllowed() ? customBackendHosts() : [],
+  };
+}
+
+export function resolveBackend(request: BackendRequest): ResolveResult {
+  let profiles: BackendProfile[];
+  try {
+    profiles = loadProfiles();
+  } catch (err) {
+    return {
+      ok: false,
+      error: `Backend profiles are misconfigured: ${
+        err instanceof Error ? err.message : "unknown error"
+      }`,
+      status: 500,
+    };
+  }
+
+  if (request.profileId) {
+    const profile = profiles.find((p) => p.id === request.profileId);
+    if (!profile) {
+      return {
+        ok: false,
+        error: `Unknown backend profile "${request.profileId}". Pick another one in Settings.`,
+        status: 400,
+      };
+    }
+    return {
+      ok: true,
+      backend: {
+        baseUrl: normalizeBaseUrl(profile.url),
+        apiKey: profile.apiKey,
+        profileId: profile.id,
+        label: profile.label,
+      },
+    };
+  }
+
+  if (request.apiUrl) {
+    if (!customBackendsAllowed()) {
+      return {
+        ok: false,
+        error:
+          "Custom backend URLs are disabled on this deployment. Pick a backend profile in Settings.",
+        status: 403,
+      };
+    }
+    if (!isHostAllowed(request.apiUrl)) {
+      return {
+        ok: false,
+        error: `This deployment only forwards to: ${customBackendHosts().join(", ")}`,
+        status: 403,
+      };
+    }
+    // Never fall back to a server-side key here — it would be sent to a
+    // host the client chose.
+    return {
+      ok: true,
+      backend: {
+        baseUrl: normalizeBaseUrl(request.apiUrl),
+        apiKey: request.apiKey || "",
+        profileId: null,
+        label: new URL(request.apiUrl).hostname,
+      },
+    };
+  }
+
+  return {
+    ok: false,
+    error:
+      "No backend configured. Open Settings to pick a backend profile or enter your ngrok URL.",
+    status: 400,
+  };
+}
+
+/** GET routes take the selection in headers so keys stay out of URLs. */
+export function backendRequestFromHeaders(headers: Headers): BackendRequest {
+  return {
+    profileId: headers.get("x-backend-profile"),
+    apiUrl: headers.get("x-api-url"),
+    apiKey: headers.get("x-api-key"),
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Which backend the browser talks to: either a server-side profile (the
+ * normal case — the key stays on the server) or, where the deployment
+ * allows it, a custom ngrok URL with the user's own key.
+ */
+export interface BackendSelection {
+  /** Empty string means "custom URL". */
+  profileId: string;
+  apiUrl: string;
+  apiKey: string;
+  /** Profiles to fail over to, in order, when this one doesn't answer. */
+  fallbacks: string[];
+}
+
+export interface BackendOptions {
+  profiles: { id: string; label: string }[];
+  allowCustom: boolean;
+  customHosts: string[];
+}
+
+export const NO_BACKEND: BackendSelection = {
+  profileId: "",
+  apiUrl: "",
+  apiKey: "",
+  fallbacks: [],
+};
+
+export const NO_BACKEND_OPTIONS: BackendOptions = {
+  profiles: [],
+  allowCustom: false,
+  customHosts: [],
+};
+
+const PROFILE_KEY = "kaggle-backend-profile";
+const URL_KEY = "kaggle-api-url";
+const KEY_KEY = "kaggle-api-key";
+const FALLBACKS_KEY = "kaggle-backend-fallbacks";
+
+export function isBackendConfigured(backend: BackendSelection): boolean {
+  return Boolean(backend.profileId || backend.apiUrl);
+}
+
+/** Stable identity for tagging async results with the backend they're for. */
+export function backendKey(backend: BackendSelection): string {
+  return backend.profileId
+    ? `profile:${backend.profileId}`
+    : `url:${backend.apiUrl}`;
+}
+
+/** For GET routes — see backendRequestFromHeaders on the server. */
+export function backendHeaders(
+  backend: BackendSelection,
+): Record<string, string> {
+  if (backend.profileId) return { "x-backend-profile": backend.profileId };
+  return { "x-api-url": backend.apiUrl, "x-api-key": backend.apiKey };
+}
+
+/** For the POST /api/chat body: the ordered list the route fails over along. */
+export function backendBody(backend: BackendSelection) {
+  const primary = backend.profileId
+    ? { profileId: backend.profileId }
+    : { apiUrl: backend.apiUrl, apiKey: backend.apiKey };
+  return {
+    backends: [
+      primary,
+      ...backend.fallbacks
+        .filter((id) => id !== backend.profileId)
+        .map((profileId) => ({ profileId })),
+    ],
+  };
+}
+
+function loadFallbacks(): string[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(FALLBACKS_KEY) || "[]");
+    return Array.isArray(parsed)
+      ? parsed.filter((id) => typeof id === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function loadBackendSelection(): BackendSelection {
+  return {
+    profileId: localStorage.getItem(PROFILE_KEY) || "",
+    apiUrl: localStorage.getItem(URL_KEY) || "",
+    apiKey: localStorage.getItem(KEY_KEY) || "",
+    fallbacks: loadFallbacks(),
+  };
+}
+
+export function saveBackendSelection(backend: BackendSelection) {
+  if (backend.profileId) {
+    localStorage.setItem(PROFILE_KEY, backend.profileId);
+    // A profile carries its own key server-side — don't keep one lying around
+    localStorage.removeItem(URL_KEY);
+    localStorage.removeItem(KEY_KEY);
+  } else {
+    localStorage.removeItem(PROFILE_KEY);
+    localStorage.setItem(URL_KEY, backend.apiUrl);
+    localStorage.setItem(KEY_KEY, backend.apiKey);
+  }
+  localStorage.setItem(FALLBACKS_KEY, JSON.stringify(backend.fallbacks));
+}
+
+export async function fetchBackendOptions(): Promise<BackendOptions> {
+  const response = await fetch("/api/backends");
+  if (!response.ok) return NO_BACKEND_OPTIONS;
+  return response.json();
+}
+
+/**
+ * Keep the saved selection if the deployment still offers it, otherwise
+ * fall back to the first profile (or nothing). Fallbacks the deployment
+ * no longer has are dropped either way.
+ */
+export function reconcileBackend(
+  saved: BackendSelection,
+  options: BackendOptions,
+): BackendSelection {
+  const offered = (id: string) => options.profiles.some((p) => p.id === id);
+  const fallbacks = saved.fallbacks.filter(offered);
+  if (saved.profileId) {
+    if (offered(saved.profileId)) return { ...saved, fallbacks };
+  } else if (saved.apiUrl && options.allowCustom) {
+    return { ...saved, fallbacks };
+  }
+  const first = options.profiles[0];
+  return first
+    ? {
+        ...NO_BACKEND,
+        profileId: first.id,
+        fallbacks: fallbacks.filter((id) => id !== first.id),
+      }
+    : NO_BACKEND;
+}
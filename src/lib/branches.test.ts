@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  BranchedPath,
+  ROOT_FORK,
+  branchPosition,
+  dropEmptyBranch,
+  forkAt,
+  switchBranch,
+} from "@/lib/branches";
+import { Message } from "@/lib/conversations";
+
+const user = (content: string): Message => ({ role: "user", content });
+const reply = (content: string): Message => ({ role: "assistant", content });
+
+// Every message on the active path and in the branches, in no order
+function everything({ messages, branches }: BranchedPath) {
+  return [
+    ...messages,
+    ...Object.values(branches).flatMap((f) =>
+      f.alternatives.flatMap((a) => a ?? []),
+    ),
+  ]
+    .map((m) => m.content)
+    .sort();
+}
+
+const chat: BranchedPath = {
+  messages: [user("hi"), reply("hello"), user("how are you?"), reply("fine")],
+  branches: {},
+};
+
+describe("forkAt", () => {
+  it("keeps the rest of the chat as an alternative", () => {
+    const forked = forkAt(chat, 3);
+    expect(forked.messages.map((m) => m.content)).toEqual([
+      "hi",
+      "hello",
+      "how are you?",
+    ]);
+    const key = forked.messages[2].id!;
+    expect(key).toBeTruthy();
+    expect(forked.branches[key]).toEqual({
+      active: 1,
+      alternatives: [[reply("fine")], null],
+    });
+  });
+
+  it("keys a fork at the first message by the root", () => {
+    const forked = forkAt(chat, 0);
+    expect(forked.messages).toEqual([]);
+    expect(forked.branches[ROOT_FORK]).toEqual({
+      active: 1,
+      alternatives: [chat.messages, null],
+    });
+  });
+
+  it("adds to an existing fork", () => {
+    const first = forkAt(chat, 3);
+    const second = forkAt(
+      { ...first, messages: [...first.messages, reply("good")] },
+      3,
+    );
+    const key = second.messages[2].id!;
+    expect(second.branches[key]).toEqual({
+      active: 2,
+      alternatives: [[reply("fine")], [reply("good")], null],
+    });
+  });
+
+  it("does nothing past the end of the chat", () => {
+    expect(forkAt(chat, 4)).toEqual(chat);
+  });
+});
+
+describe("switchBranch", () => {
+  const forked = forkAt(chat, 3);
+  const key = forked.messages[2].id!;
+  const twoWays: BranchedPath = {
+    ...forked,
+    messages: [...forked.messages, reply("good")],
+  };
+
+  it("swaps the path for another alternative without losing either", () => {
+    const switched = switchBranch(twoWays, 3, 0);
+    expect(switched.messages.at(-1)).toEqual(reply("fine"));
+    expect(switched.branches[key]).toEqual({
+      active: 0,
+      alternatives: [null, [reply("good")]],
+    });
+    expect(everything(switched)).toEqual(everything(twoWays));
+    expect(branchPosition(switched, 3)).toEqual({ index: 0, count: 2 });
+  });
+
+  it("switches back to where it started", () => {
+    expect(switchBranch(switchBranch(twoWays, 3, 0), 3, 1)).toEqual(twoWays);
+  });
+
+  it.each([
+    ["the active alternative", 3, 1],
+    ["an alternative that doesn't exist", 3, 5],
+    ["a message with no fork", 1, 0],
+  ])("ignores a switch to %s", (_, idx, to) => {
+    expect(switchBranch(twoWays, idx, to)).toEqual(twoWays);
+  });
+});
+
+describe("branchPosition", () => {
+  it("is null where the chat never forked", () => {
+    expect(branchPosition(chat, 1)).toBeNull();
+  });
+
+  it("is null past the end of the path", () => {
+    const forked = forkAt(chat, 3);
+    expect(branchPosition(forked, 3)).toBeNull();
+  });
+});
+
+describe("dropEmptyBranch", () => {
+  it("restores the only other alternative and removes the fork", () => {
+    const forked = forkAt(chat, 3);
+    const dropped = dropEmptyBranch(forked);
+    expect(dropped.messages.map((m) => m.content)).toEqual(
+      chat.messages.map((m) => m.content),
+    );
+    expect(dropped.branches).toEqual({});
+  });
+
+  it("goes back to the newest of several alternatives", () => {
+    const first = forkAt(chat, 3);
+    const second = forkAt(
+      { ...first, messages: [...first.messages, reply("good")] },
+      3,
+    );
+    const dropped = dropEmptyBranch(second);
+    const key = dropped.messages[2].id!;
+    expect(dropped.messages.at(-1)).toEqual(reply("good"));
+    expect(dropped.branches[key]).toEqual({
+      active: 1,
+      alternatives: [[reply("fine")], null],
+    });
+    expect(everything(dropped)).toEqual(everything(second));
+  });
+
+  it("leaves a branch that got a message alone", () => {
+    const forked = forkAt(chat, 3);
+    const answered = {
+      ...forked,
+      messages: [...forked.messages, reply("good")],
+    };
+    expect(dropEmptyBranch(answered)).toBe(answered);
+  });
+
+  it("leaves a chat with no branches alone", () => {
+    expect(dropEmptyBranch(chat)).toBe(chat);
+  });
+});
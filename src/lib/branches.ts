@@ -0,0 +1,121 @@
+import { Branches, Fork, Message } from "@/lib/conversations";
+
+/**
+ * Conversation branching. Editing a prompt or regenerating a reply forks
+ * the chat instead of discarding what followed, so it is really a tree.
+ * The chat keeps the active path as its flat `messages` — everything that
+ * renders, exports or goes to the model reads only that — and the other
+ * branches sit in `branches`, keyed by the message they follow.
+ */
+
+export const ROOT_FORK = "";
+
+/** A chat's active path along with its other branches. */
+export interface BranchedPath {
+  messages: Message[];
+  branches: Branches;
+}
+
+/** Where message `idx` sits among the alternatives at its fork. */
+export interface BranchPosition {
+  index: number;
+  count: number;
+}
+
+function newId() {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+function forkKey(messages: Message[], idx: number): string | undefined {
+  return idx === 0 ? ROOT_FORK : messages[idx - 1]?.id;
+}
+
+export function branchPosition(
+  { messages, branches }: BranchedPath,
+  idx: number,
+): BranchPosition | null {
+  const key = forkKey(messages, idx);
+  const fork = key === undefined ? undefined : branches[key];
+  if (!fork || idx >= messages.length) return null;
+  return { index: fork.active, count: fork.alternatives.length };
+}
+
+/**
+ * Start a new branch at `idx`: the messages from there on are kept as an
+ * alternative and the path is cut back so the next message goes in their
+ * place.
+ */
+export function forkAt(
+  { messages, branches }: BranchedPath,
+  idx: number,
+): BranchedPath {
+  const rest = messages.slice(idx);
+  if (rest.length === 0) return { messages, branches };
+  const prefix = messages.slice(0, idx);
+  // The message the branches follow needs an id to key them by
+  if (idx > 0 && !prefix[idx - 1].id) {
+    prefix[idx - 1] = { ...prefix[idx - 1], id: newId() };
+  }
+  const key = forkKey(prefix, idx)!;
+  const fork: Fork = branches[key] ?? { active: 0, alternatives: [null] };
+  const alternatives = fork.alternatives.map((a, i) =>
+    i === fork.active ? rest : a,
+  );
+  return {
+    messages: prefix,
+    branches: {
+      ...branches,
+      [key]: {
+        active: alternatives.length,
+        alternatives: [...alternatives, null],
+      },
+    },
+  };
+}
+
+/** Make alternative `to` of message `idx`'s fork the active path. */
+export function switchBranch(
+  { messages, branches }: BranchedPath,
+  idx: number,
+  to: number,
+): BranchedPath {
+  const key = forkKey(messages, idx);
+  const fork = key === undefined ? undefined : branches[key];
+  const target = fork?.alternatives[to];
+  if (!fork || !target || key === undefined || idx >= messages.length) {
+    return { messages, branches };
+  }
+  const alternatives = fork.alternatives.map((a, i) =>
+    i === fork.active ? messages.slice(idx) : i === to ? null : a,
+  );
+  return {
+    messages: [...messages.slice(0, idx), ...target],
+    branches: { ...branches, [key]: { active: to, alternatives } },
+  };
+}
+
+/**
+ * A new branch that never got a message (the reply was stopped before it
+ * began, say) is dropped, and the path goes back to the newest of the rest.
+ */
+export function dropEmptyBranch(path: BranchedPath): BranchedPath {
+  const { messages, branches } = path;
+  const key = forkKey(messages, messages.length);
+  const fork = key === undefined ? undefined : branches[key];
+  if (!fork || key === undefined) return path;
+  const alternatives = fork.alternatives.filter((_, i) => i !== fork.active);
+  const back = alternatives.length - 1;
+  const rest = { ...branches };
+  delete rest[key];
+  const restored = {
+    messages: [...messages, ...(alternatives[back] ?? [])],
+    branches: rest,
+  };
+  // With one way left there is nothing to switch between
+  if (alternatives.length < 2) return restored;
+  alternatives[back] = null;
+  return {
+    ...restored,
+    branches: { ...rest, [key]: { active: back, alternatives } },
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { evaluate } from "@/lib/calculator";
+
+describe("evaluate", () => {
+  it.each([
+    ["1 + 2 * 3", 7],
+    ["(1 + 2) * 3", 9],
+    ["10 - 4 - 3", 3],
+    ["7 % 4", 3],
+    ["-2^2", -4],
+    ["2^-1", 0.5],
+    ["2 ** 3 ** 2", 512],
+    ["sqrt(16) + abs(-3)", 7],
+    ["max(1, 5, 3)", 5],
+    ["PI", Math.PI],
+    ["1.5e3 + .5", 1500.5],
+  ])("%s = %d", (expression, expected) => {
+    expect(evaluate(expression)).toBeCloseTo(expected);
+  });
+
+  // Names are looked up as the tables' own keys, never the prototype's
+  it.each([
+    "constructor",
+    "toString(1)",
+    "__proto__",
+    "hasOwnProperty(1)",
+    "valueOf",
+  ])("rejects the inherited name %s", (expression) => {
+    expect(() => evaluate(expression)).toThrow(/Unknown name/);
+  });
+
+  it.each([
+    ["process.exit()", /Unknown name/],
+    ["1; 2", /Unexpected ";"/],
+    ["(1 + 2", /Expected "\)"/],
+    ["1 +", /Unexpected end/],
+    ["1 / 0", /not a finite number/],
+    ["sqrt 4", /Expected "\("/],
+    ["1+".repeat(300) + "1", /too long/],
+  ])("rejects %s", (expression, message) => {
+    expect(() => evaluate(expression)).toThrow(message);
+  });
+});
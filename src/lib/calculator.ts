@@ -0,0 +1,119 @@
+/**
+ * Arithmetic for the calculator tool. A small recursive-descent parser, so
+ * model-written expressions are never handed to eval().
+ *
+ *   expr    = term (("+" | "-") term)*
+ *   term    = unary (("*" | "/" | "%") unary)*
+ *   unary   = "-" unary | power
+ *   power   = call ("^" unary)?        (so -2^2 is -4, 2^-1 is 0.5)
+ *   call    = name "(" expr ("," expr)* ")" | name | number | "(" expr ")"
+ */
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  ceil: Math.ceil,
+  cos: Math.cos,
+  exp: Math.exp,
+  floor: Math.floor,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  max: Math.max,
+  min: Math.min,
+  round: Math.round,
+  sin: Math.sin,
+  sqrt: Math.sqrt,
+  tan: Math.tan,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+export function evaluate(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error("Expression is too long");
+  }
+  const tokens =
+    expression.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-z_]\w*|\*\*|\S/gi) || [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const take = (expected?: string) => {
+    const token = tokens[pos++];
+    if (expected && token !== expected) {
+      throw new Error(
+        `Expected "${expected}" but found ${token ? `"${token}"` : "the end"}`,
+      );
+    }
+    return token;
+  };
+
+  function expr(): number {
+    let value = term();
+    while (peek() === "+" || peek() === "-") {
+      value = take() === "+" ? value + term() : value - term();
+    }
+    return value;
+  }
+
+  function term(): number {
+    let value = unary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = take();
+      const rhs = unary();
+      value = op === "*" ? value * rhs : op === "/" ? value / rhs : value % rhs;
+    }
+    return value;
+  }
+
+  function unary(): number {
+    if (peek() === "-") {
+      take();
+      return -unary();
+    }
+    if (peek() === "+") take();
+    return power();
+  }
+
+  function power(): number {
+    const base = call();
+    if (peek() === "^" || peek() === "**") {
+      take();
+      return base ** unary();
+    }
+    return base;
+  }
+
+  function call(): number {
+    const token = take();
+    if (token === undefined) throw new Error("Unexpected end of expression");
+    if (token === "(") {
+      const value = expr();
+      take(")");
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+
+    const name = token.toLowerCase();
+    // Own keys only, or "constructor" would name Object's
+    if (Object.hasOwn(CONSTANTS, name)) return CONSTANTS[name];
+    const fn = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!fn) throw new Error(`Unknown name "${token}"`);
+    take("(");
+    const args = [expr()];
+    while (peek() === ",") {
+      take();
+      args.push(expr());
+    }
+    take(")");
+    return fn(...args);
+  }
+
+  const result = expr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  if (!Number.isFinite(result)) {
+    throw new Error("Result is not a finite number");
+  }
+  return result;
+}
@@ -0,0 +1,178 @@
+export const DEFAULT_MODEL = "qwen2.5-coder-14b-instruct";
+
+export const DEFAULT_SYSTEM_PROMPT =
+  "You are a helpful AI assistant powered by Qwen2.5-Coder-14B. You are knowledgeable, concise, and friendly. Format your responses using markdown when appropriate.";
+
+/** Safe ranges for the sampling parameters we forward upstream. */
+export const PARAM_LIMITS = {
+  temperature: { min: 0, max: 2 },
+  top_p: { min: 0, max: 1 },
+  // The notebook runs llama.cpp with --n_ctx 8192
+  max_tokens: { min: 1, max: 8192 },
+  presence_penalty: { min: -2, max: 2 },
+  seed: { min: 0, max: 4294967295 },
+} as const;
+
+const MAX_STOP_SEQUENCES = 4;
+const MAX_STOP_LENGTH = 64;
+export const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+const MODEL_ID_PATTERN = /^[\w.\-:/]{1,256}$/;
+
+/** Request-body fields understood by POST /api/chat. */
+export interface ChatParams {
+  model?: string;
+  systemPrompt?: string;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string | string[];
+  presence_penalty?: number;
+  seed?: number;
+  /** Offer the server's tools to the model. */
+  tools?: boolean;
+  /** Add excerpts from this knowledge base to the system prompt. */
+  knowledgeBaseId?: string;
+}
+
+/** Parameters after validation, with defaults filled in. */
+export interface ResolvedChatParams {
+  model: string;
+  systemPrompt: string;
+  temperature: number;
+  top_p?: number;
+  max_tokens: number;
+  stop?: string[];
+  presence_penalty?: number;
+  seed?: number;
+  tools: boolean;
+  knowledgeBaseId?: string;
+}
+
+export interface ParamError {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult =
+  | { ok: true; params: ResolvedChatParams }
+  | { ok: false; errors: ParamError[] };
+
+function checkNumber(
+  body: ChatParams,
+  field: keyof typeof PARAM_LIMITS,
+  errors: ParamError[],
+  integer = false,
+): number | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  const { min, max } = PARAM_LIMITS[field];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    errors.push({ field, message: `${field} must be a number` });
+  } else if (integer && !Number.isInteger(value)) {
+    errors.push({ field, message: `${field} must be an integer` });
+  } else if (value < min || value > max) {
+    errors.push({
+      field,
+      message: `${field} must be between ${min} and ${max}`,
+    });
+  } else {
+    return value;
+  }
+  return undefined;
+}
+
+export function validateChatParams(body: ChatParams): ValidationResult {
+  const errors: ParamError[] = [];
+
+  let model = DEFAULT_MODEL;
+  if (body.model !== undefined && body.model !== "") {
+    if (typeof body.model !== "string" || !MODEL_ID_PATTERN.test(body.model)) {
+      errors.push({ field: "model", message: "model is not a valid model id" });
+    } else {
+      model = body.model;
+    }
+  }
+
+  let systemPrompt = DEFAULT_SYSTEM_PROMPT;
+  if (body.systemPrompt !== undefined && body.systemPrompt !== "") {
+    if (typeof body.systemPrompt !== "string") {
+      errors.push({
+        field: "systemPrompt",
+        message: "systemPrompt must be a string",
+      });
+    } else if (body.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+      errors.push({
+        field: "systemPrompt",
+        message: `systemPrompt must be at most ${MAX_SYSTEM_PROMPT_LENGTH} characters`,
+      });
+    } else {
+      systemPrompt = body.systemPrompt;
+    }
+  }
+
+  let stop: string[] | undefined;
+  if (body.stop !== undefined && body.stop !== null) {
+    const list = typeof body.stop === "string" ? [body.stop] : body.stop;
+    if (
+      !Array.isArray(list) ||
+      list.some(
+        (s) => typeof s !== "string" || !s || s.length > MAX_STOP_LENGTH,
+      )
+    ) {
+      errors.push({
+        field: "stop",
+        message: `stop must be non-empty strings of at most ${MAX_STOP_LENGTH} characters`,
+      });
+    } else if (list.length > MAX_STOP_SEQUENCES) {
+      errors.push({
+        field: "stop",
+        message: `stop accepts at most ${MAX_STOP_SEQUENCES} sequences`,
+      });
+    } else if (list.length > 0) {
+      stop = list;
+    }
+  }
+
+  const temperature = checkNumber(body, "temperature", errors);
+  const top_p = checkNumber(body, "top_p", errors);
+  const max_tokens = checkNumber(body, "max_tokens", errors, true);
+  const presence_penalty = checkNumber(body, "presence_penalty", errors);
+  const seed = checkNumber(body, "seed", errors, true);
+
+  if (body.tools !== undefined && typeof body.tools !== "boolean") {
+    errors.push({ field: "tools", message: "tools must be true or false" });
+  }
+
+  let knowledgeBaseId: string | undefined;
+  if (body.knowledgeBaseId !== undefined && body.knowledgeBaseId !== "") {
+    if (
+      typeof body.knowledgeBaseId !== "string" ||
+      body.knowledgeBaseId.length > 64
+    ) {
+      errors.push({
+        field: "knowledgeBaseId",
+        message: "knowledgeBaseId is not a valid id",
+      });
+    } else {
+      knowledgeBaseId = body.knowledgeBaseId;
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    params: {
+      model,
+      systemPrompt,
+      temperature: temperature ?? 0.7,
+      top_p,
+      max_tokens: max_tokens ?? 2048,
+      stop,
+      presence_penalty,
+      seed,
+      tools: body.tools === true,
+      knowledgeBaseId,
+    },
+  };
+}
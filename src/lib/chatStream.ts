@@ -0,0 +1,91 @@
+/**
+ * Wire format between /api/chat and the browser: newline-delimited JSON,
+ * one event per line. The route translates the upstream OpenAI SSE into
+ * these so the client can tell *why* a response ended.
+ */
+
+import { Chunk } from "@/lib/retrieval";
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type ChatStreamEvent =
+  /** `skipped`: backends that were busy or failed before `backend` answered. */
+  | { type: "meta"; model: string; backend: string; skipped?: string[] }
+  /** Knowledge-base excerpts added to the system prompt. */
+  | { type: "sources"; chunks: Chunk[] }
+  | { type: "delta"; content: string }
+  /** Sent once per model round; tool rounds each report their own. */
+  | ({ type: "usage" } & ChatUsage)
+  /** The model asked for a tool; its `tool_result` follows. */
+  | { type: "tool_call"; id: string; name: string; arguments: string }
+  | { type: "tool_result"; id: string; content: string; error: boolean }
+  /** `length` means the reply hit max_tokens. */
+  | { type: "finish"; reason: string }
+  | { type: "error"; message: string };
+
+export const CHAT_STREAM_CONTENT_TYPE = "application/x-ndjson; charset=utf-8";
+
+/** How many 429s (rate limit, busy backend) a client waits out. */
+export const MAX_RATE_LIMIT_RETRIES = 5;
+
+/** The wait a 429 from /api/chat asks for. */
+export function retryAfterMs(response: Response): number {
+  return (Number(response.headers.get("Retry-After")) || 5) * 1000;
+}
+
+/** setTimeout as a promise that rejects with AbortError when `signal` fires. */
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    if (signal.aborted) abort();
+    else signal.addEventListener("abort", abort, { once: true });
+  });
+}
+
+export function encodeEvent(event: ChatStreamEvent): string {
+  return JSON.stringify(event) + "\n";
+}
+
+/** Parse the NDJSON stream from /api/chat into events as they arrive. */
+export async function* readChatStream(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+): AsyncGenerator<ChatStreamEvent> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line) as ChatStreamEvent;
+      } catch {
+        // Skip malformed lines
+      }
+    }
+  }
+
+  if (buffer.trim()) {
+    try {
+      yield JSON.parse(buffer) as ChatStreamEvent;
+    } catch {
+      // Truncated final line
+    }
+  }
+}
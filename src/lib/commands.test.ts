@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { isCommand } from "@/lib/commands";
+
+describe("isCommand", () => {
+  it.each([
+    "/help",
+    "/clear",
+    "  /MODEL qwen",
+    "/temp 0.2",
+    "/system Be terse",
+  ])("treats %j as a command", (input) => expect(isCommand(input)).toBe(true));
+
+  it.each(["/tmp is full", "/usr/bin/env node", "/helpme", "hello /help", "/"])(
+    "sends %j to the model",
+    (input) => expect(isCommand(input)).toBe(false),
+  );
+});
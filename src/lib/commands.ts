@@ -0,0 +1,227 @@
+import { PARAM_LIMITS, validateChatParams } from "@/lib/chatParams";
+import { Conversation, ModelSettings, toChatParams } from "@/lib/conversations";
+import { Preset } from "@/lib/presets";
+import {
+  EXPORT_FORMATS,
+  downloadText,
+  exportConversation,
+  hasPreferences,
+} from "@/lib/transcripts";
+
+/**
+ * Slash commands typed into the composer, for driving the chat from the
+ * keyboard. Each command is one entry in COMMANDS; the page hands them what
+ * they act on through a CommandContext. Only `/` followed by the name of a
+ * command counts, so a message that starts with a path (`/tmp is full`)
+ * still goes to the model.
+ */
+
+/** What commands can see and do on the chat page. */
+export interface CommandContext {
+  /** The active chat, null while it's empty. */
+  conversation: Conversation | null;
+  settings: ModelSettings;
+  presets: Preset[];
+  /** Ids the backend serves, offered for /model. */
+  models: string[];
+  /** A reply is streaming. */
+  busy: boolean;
+  updateSettings: (change: Partial<ModelSettings>) => void;
+  clear: () => void;
+  regenerate: (idx: number) => void;
+  attachFiles: () => void;
+  showHelp: () => void;
+}
+
+export interface SlashCommand {
+  name: string;
+  /** How the argument is written, shown after the name. */
+  usage?: string;
+  description: string;
+  /** Argument suggestions for the autocomplete. */
+  complete?: (ctx: CommandContext) => string[];
+  /**
+   * Returns a short confirmation for the composer, if any. Throws with a
+   * user-facing message.
+   */
+  run: (arg: string, ctx: CommandContext) => string | void;
+}
+
+/** A line in the autocomplete menu. */
+export interface Completion {
+  /** The composer text once it's picked. */
+  value: string;
+  label: string;
+  description?: string;
+}
+
+const COMMAND_PATTERN = /^\/([a-z]+)(?:\s+([\s\S]*))?$/i;
+const MAX_COMPLETIONS = 8;
+
+// The same checks saving the settings runs, so bad values never reach a request
+function changeSettings(ctx: CommandContext, change: Partial<ModelSettings>) {
+  const validation = validateChatParams(
+    toChatParams({ ...ctx.settings, ...change }),
+  );
+  if (!validation.ok) throw new Error(validation.errors[0].message);
+  ctx.updateSettings(change);
+}
+
+function matchPreset(presets: Preset[], name: string): Preset | undefined {
+  const wanted = name.toLowerCase();
+  return presets.find(
+    (p) => p.id === wanted || p.name.toLowerCase() === wanted,
+  );
+}
+
+export const COMMANDS: SlashCommand[] = [
+  {
+    name: "help",
+    description: "List the slash commands",
+    run: (_, ctx) => ctx.showHelp(),
+  },
+  {
+    name: "clear",
+    description: "Clear this chat",
+    run: (_, ctx) => ctx.clear(),
+  },
+  {
+    name: "model",
+    usage: "<id>",
+    description: "Switch this chat's model",
+    complete: (ctx) => ctx.models,
+    run: (arg, ctx) => {
+      if (!arg) return `Model: ${ctx.settings.model}`;
+      changeSettings(ctx, { model: arg });
+      return `Model set to ${arg}`;
+    },
+  },
+  {
+    name: "temp",
+    usage: `<${PARAM_LIMITS.temperature.min}–${PARAM_LIMITS.temperature.max}>`,
+    description: "Set the temperature",
+    run: (arg, ctx) => {
+      if (!arg) return `Temperature: ${ctx.settings.temperature}`;
+      const temperature = Number(arg);
+      if (Number.isNaN(temperature)) {
+        throw new Error(`"${arg}" isn't a number`);
+      }
+      changeSettings(ctx, { temperature });
+      return `Temperature set to ${temperature}`;
+    },
+  },
+  {
+    name: "system",
+    usage: "<text>",
+    description: "Replace the system prompt",
+    run: (arg, ctx) => {
+      if (!arg) return `System prompt: ${ctx.settings.systemPrompt}`;
+      changeSettings(ctx, { systemPrompt: arg });
+      return "System prompt updated";
+    },
+  },
+  {
+    name: "preset",
+    usage: "<name>",
+    description: "Use a system-prompt preset",
+    complete: (ctx) => ctx.presets.map((p) => p.name),
+    run: (arg, ctx) => {
+      const preset = matchPreset(ctx.presets, arg);
+      if (!preset) {
+        throw new Error(
+          arg ? `No preset called "${arg}"` : "Usage: /preset <name>",
+        );
+      }
+      changeSettings(ctx, {
+        presetId: preset.id,
+        systemPrompt: preset.systemPrompt,
+      });
+      return `Preset: ${preset.name}`;
+    },
+  },
+  {
+    name: "export",
+    usage: "[md|json|jsonl|preferences]",
+    description: "Download this chat (Markdown by default)",
+    complete: () => EXPORT_FORMATS.map((f) => f.extension.split(".")[0]),
+    run: (arg, ctx) => {
+      const wanted = arg.toLowerCase() || "md";
+      const entry = EXPORT_FORMATS.find(
+        (f) => f.format === wanted || f.extension.split(".")[0] === wanted,
+      );
+      if (!entry) throw new Error(`Unknown export format "${arg}"`);
+      if (!ctx.conversation) throw new Error("Nothing to export yet");
+      if (entry.format === "preferences" && !hasPreferences(ctx.conversation)) {
+        throw new Error("No compare votes to export yet");
+      }
+      const { filename, text, mime } = exportConversation(
+        ctx.conversation,
+        entry.format,
+      );
+      downloadText(filename, text, mime);
+    },
+  },
+  {
+    name: "retry",
+    description: "Regenerate the last reply",
+    run: (_, ctx) => {
+      if (ctx.busy) throw new Error("Wait for the current reply to finish");
+      const messages = ctx.conversation?.messages ?? [];
+      const last = messages.findLastIndex((m) => m.role === "assistant");
+      if (last < 0) throw new Error("There's no reply to retry yet");
+      ctx.regenerate(last);
+    },
+  },
+  {
+    name: "file",
+    description: "Attach files or images",
+    run: (_, ctx) => ctx.attachFiles(),
+  },
+];
+
+function findCommand(name: string): SlashCommand | undefined {
+  return COMMANDS.find((c) => c.name === name.toLowerCase());
+}
+
+/** Whether `input` names one of COMMANDS; anything else is a message. */
+export function isCommand(input: string): boolean {
+  const match = COMMAND_PATTERN.exec(input.trim());
+  return Boolean(match && findCommand(match[1]));
+}
+
+/** Run a typed command. Throws with a user-facing message. */
+export function runCommand(input: string, ctx: CommandContext): string | void {
+  const match = COMMAND_PATTERN.exec(input.trim());
+  if (!match) throw new Error("Not a command");
+  const [, name, arg = ""] = match;
+  const command = findCommand(name);
+  if (!command) {
+    throw new Error(`Unknown command /${name} — type /help for the list`);
+  }
+  return command.run(arg.trim(), ctx);
+}
+
+/** Autocomplete for the command name, then for its argument. */
+export function completeCommand(
+  input: string,
+  ctx: CommandContext,
+): Completion[] {
+  const match = /^\/([a-z]*)(\s+(.*))?$/i.exec(input);
+  if (!match) return [];
+  const [, typed, rest, arg = ""] = match;
+  if (rest === undefined) {
+    return COMMANDS.filter((c) => c.name.startsWith(typed.toLowerCase())).map(
+      (c) => ({
+        value: c.usage ? `/${c.name} ` : `/${c.name}`,
+        label: c.usage ? `/${c.name} ${c.usage}` : `/${c.name}`,
+        description: c.description,
+      }),
+    );
+  }
+  const command = findCommand(typed);
+  const wanted = arg.toLowerCase();
+  return (command?.complete?.(ctx) ?? [])
+    .filter((option) => option.toLowerCase().startsWith(wanted))
+    .slice(0, MAX_COMPLETIONS)
+    .map((option) => ({ value: `/${command!.name} ${option}`, label: option }));
+}
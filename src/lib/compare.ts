@@ -0,0 +1,193 @@
+import { BackendSelection, NO_BACKEND, backendBody } from "@/lib/backends";
+import {
+  MAX_RATE_LIMIT_RETRIES,
+  readChatStream,
+  retryAfterMs,
+  sleep,
+} from "@/lib/chatStream";
+import {
+  CompareAnswer,
+  CompareTarget,
+  Comparison,
+  Message,
+} from "@/lib/conversations";
+
+/**
+ * Compare mode: one prompt goes to several backends or models at once and
+ * each answer streams into its own column. The conversation carries on with
+ * the answer voted better, and the votes export as preference pairs.
+ */
+
+export const MAX_COMPARE_COLUMNS = 4;
+// Same budget the single-answer path gives a request
+const REQUEST_TIMEOUT_MS = 60000;
+
+export function isComparing(targets: CompareTarget[] | undefined): boolean {
+  return (targets?.length ?? 0) >= 2;
+}
+
+/** A column answers from its own backend, without failing over. */
+export function targetBackend(
+  target: CompareTarget,
+  current: BackendSelection,
+): BackendSelection {
+  return target.profileId
+    ? { ...NO_BACKEND, profileId: target.profileId }
+    : { ...current, fallbacks: [] };
+}
+
+/** What the follow-up turns see: the preferred answer, else the first good one. */
+export function comparisonContent(comparison: Comparison): string {
+  const { answers, preferred } = comparison;
+  if (preferred !== undefined && answers[preferred]) {
+    return answers[preferred].content;
+  }
+  return (
+    answers.find((a) => a.content.trim() && !a.meta?.error)?.content ??
+    answers.find((a) => a.content.trim())?.content ??
+    ""
+  );
+}
+
+/** The message with `answer` voted better. */
+export function voteFor(message: Message, answer: number): Message {
+  if (!message.comparison) return message;
+  const comparison = { ...message.comparison, preferred: answer };
+  return { ...message, comparison, content: comparisonContent(comparison) };
+}
+
+async function streamAnswer(
+  body: object,
+  answer: CompareAnswer,
+  signal: AbortSignal,
+  onUpdate: (answer: CompareAnswer) => void,
+): Promise<void> {
+  let started = performance.now();
+  const elapsed = () => Math.round(performance.now() - started);
+  const current = { ...answer, meta: { ...answer.meta } };
+  const update = () => onUpdate({ ...current, meta: { ...current.meta } });
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal.addEventListener("abort", abort, { once: true });
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  try {
+    let response: Response;
+    for (let attempt = 0; ; attempt++) {
+      timeout = setTimeout(abort, REQUEST_TIMEOUT_MS);
+      response = await fetch("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal: controller.signal,
+        body: JSON.stringify(body),
+      });
+      clearTimeout(timeout);
+      // Rate limited or the backend's streams are taken — wait it out
+      if (response.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        break;
+      }
+      await sleep(retryAfterMs(response), controller.signal);
+      // Latency is timed from the request that got through
+      started = performance.now();
+    }
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Server error (${response.status})`);
+    }
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error("No response stream available");
+
+    for await (const event of readChatStream(reader)) {
+      if (event.type === "delta") {
+        current.ttftMs ??= elapsed();
+        current.content += event.content;
+      } else if (event.type === "meta") {
+        current.meta.model = event.model;
+        current.meta.backend = event.backend;
+      } else if (event.type === "usage") {
+        current.meta.usage = {
+          promptTokens: event.promptTokens,
+          completionTokens: event.completionTokens,
+          totalTokens: event.totalTokens,
+        };
+      } else if (event.type === "finish") {
+        current.meta.finishReason = event.reason;
+      } else if (event.type === "error") {
+        current.meta.error = event.message;
+      } else {
+        continue;
+      }
+      update();
+    }
+    if (!current.content.trim() && !current.meta.error) {
+      current.meta.error = "Received an empty response from the model.";
+    }
+  } catch (err) {
+    if (!(err instanceof Error && err.name === "AbortError")) {
+      current.meta.error =
+        err instanceof Error ? err.message : "An unknown error occurred";
+    } else if (!signal.aborted) {
+      current.meta.error = `Request timed out (${REQUEST_TIMEOUT_MS / 1000} s).`;
+    }
+  } finally {
+    clearTimeout(timeout);
+    signal.removeEventListener("abort", abort);
+  }
+  current.durationMs = elapsed();
+  update();
+}
+
+/**
+ * Send the /api/chat `body` to every target, each with its own backend
+ * and model; targets on different backends stream at the same time.
+ * `onUpdate` gets the whole comparison each time any column changes;
+ * resolves (never rejects) once all are done.
+ */
+export async function streamComparison(
+  targets: CompareTarget[],
+  body: object,
+  current: BackendSelection,
+  defaultModel: string,
+  signal: AbortSignal,
+  onUpdate: (comparison: Comparison) => void,
+): Promise<Comparison> {
+  const comparison: Comparison = {
+    answers: targets.map((t) => ({
+      label: t.label,
+      model: t.model || defaultModel,
+      content: "",
+    })),
+  };
+  onUpdate(comparison);
+
+  // Columns on the same backend take turns: each is its own /api/chat
+  // request, and a backend only streams a couple of replies at once
+  const lanes = new Map<string, number[]>();
+  targets.forEach((target, i) => {
+    const backend = targetBackend(target, current);
+    const key = backend.profileId || backend.apiUrl;
+    lanes.set(key, [...(lanes.get(key) ?? []), i]);
+  });
+  await Promise.all(
+    [...lanes.values()].map(async (columns) => {
+      for (const i of columns) {
+        await streamAnswer(
+          {
+            ...body,
+            ...backendBody(targetBackend(targets[i], current)),
+            model: comparison.answers[i].model,
+          },
+          comparison.answers[i],
+          signal,
+          (answer) => {
+            comparison.answers = comparison.answers.map((a, j) =>
+              j === i ? answer : a,
+            );
+            onUpdate({ ...comparison });
+          },
+        );
+      }
+    }),
+  );
+  return comparison;
+}
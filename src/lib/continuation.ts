@@ -0,0 +1,98 @@
+/**
+ * "Continue" for replies cut off at max_tokens. The partial reply goes back
+ * to the model followed by an instruction to pick up where it stopped; the
+ * new tokens are then merged into the same message.
+ */
+
+interface Fence {
+  marker: string;
+  info: string;
+}
+
+const FENCE_LINE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+
+// Shortest repeated text we trust to be an actual overlap, not a coincidence
+const MIN_OVERLAP = 12;
+const MAX_OVERLAP = 400;
+
+/** The code fence still open at the end of `content`, if any. */
+export function openFence(content: string): Fence | null {
+  let open: Fence | null = null;
+  for (const line of content.split("\n")) {
+    const match = FENCE_LINE.exec(line);
+    if (!match) continue;
+    const [, marker, rest] = match;
+    if (!open) {
+      // Backtick fences can't have backticks in the info string
+      if (marker[0] === "`" && rest.includes("`")) continue;
+      open = { marker, info: rest.trim() };
+    } else if (
+      marker[0] === open.marker[0] &&
+      marker.length >= open.marker.length &&
+      !rest.trim()
+    ) {
+      open = null;
+    }
+  }
+  return open;
+}
+
+/** What to ask the model after its partial reply. */
+export function continuationInstruction(partial: string): string {
+  const fence = openFence(partial);
+  let instruction =
+    "Your previous reply was cut off. Continue it exactly where it stopped — do not repeat anything you already wrote and do not add any introduction.";
+  if (fence) {
+    instruction += ` The cut happened inside a ${fence.marker}${fence.info} code block: carry on with the code itself, without opening a new block, and close the block when the code is complete.`;
+  }
+  return instruction;
+}
+
+/** Append the continuation instruction when the history ends with a reply. */
+export function continuationMessages<
+  T extends { role: string; content: unknown },
+>(messages: T[]): (T | { role: "user"; content: string })[] {
+  const last = messages[messages.length - 1];
+  if (last?.role !== "assistant" || typeof last.content !== "string") {
+    return messages;
+  }
+  return [
+    ...messages,
+    { role: "user", content: continuationInstruction(last.content) },
+  ];
+}
+
+/**
+ * Join a continuation onto the partial reply. Models often reopen the code
+ * block they were in or repeat the last few words; both are dropped so the
+ * fence structure of the merged message stays intact.
+ */
+export function mergeContinuation(partial: string, addition: string): string {
+  let rest = addition;
+
+  const fence = openFence(partial);
+  if (fence) {
+    // Only a fence with a language is a reopening; a bare one may be the
+    // model closing the block it was in
+    const reopened = /^\s*(`{3,}|~{3,})[ \t]*\S[^\n]*\n/.exec(rest);
+    if (reopened && reopened[1][0] === fence.marker[0]) {
+      rest = rest.slice(reopened[0].length);
+    }
+  }
+
+  // A restarted line: "def f(" + "def f(x):" should give "def f(x):"
+  const tail = partial.slice(partial.lastIndexOf("\n") + 1);
+  if (tail.trim() && rest.startsWith(tail)) {
+    return partial + rest.slice(tail.length);
+  }
+
+  const limit = Math.min(MAX_OVERLAP, partial.length, rest.length);
+  for (let size = limit; size >= MIN_OVERLAP; size--) {
+    if (partial.endsWith(rest.slice(0, size))) {
+      rest = rest.slice(size);
+      break;
+    }
+  }
+
+  return partial + rest;
+}
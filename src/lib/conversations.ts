@@ -0,0 +1,297 @@
+import { Attachment } from "@/lib/attachments";
+import {
+  ChatParams,
+  DEFAULT_MODEL,
+  DEFAULT_SYSTEM_PROMPT,
+  validateChatParams,
+} from "@/lib/chatParams";
+import { ChatUsage } from "@/lib/chatStream";
+import { Chunk } from "@/lib/retrieval";
+import { CONTEXT_SIZE_LIMITS } from "@/lib/tokens";
+
+/** What the stream told us about how an assistant reply was produced. */
+export interface MessageMeta {
+  model?: string;
+  /** Label of the backend that answered. */
+  backend?: string;
+  /** Backends that were busy or failed first. */
+  skipped?: string[];
+  /** `length` when the reply was cut off at max_tokens. */
+  finishReason?: string;
+  usage?: ChatUsage;
+  /** Set when the stream failed after some content had already arrived. */
+  error?: string;
+  /** Knowledge-base excerpts the reply was given. */
+  sources?: Chunk[];
+}
+
+/** One tool the model called while producing a reply. */
+export interface ToolStep {
+  id: string;
+  name: string;
+  /** The arguments as the model wrote them (a JSON string). */
+  arguments: string;
+  result?: string;
+  error?: boolean;
+}
+
+/** One column of a side-by-side comparison. */
+export interface CompareAnswer {
+  /** Backend and model, as shown above the column. */
+  label: string;
+  model: string;
+  content: string;
+  meta?: MessageMeta;
+  /** Measured in the browser, from sending the request. */
+  ttftMs?: number;
+  durationMs?: number;
+}
+
+export interface Comparison {
+  answers: CompareAnswer[];
+  /** Index of the answer voted better. */
+  preferred?: number;
+}
+
+/** A backend and model that answers in compare mode. */
+export interface CompareTarget {
+  /** Empty string means the chat's own backend. */
+  profileId: string;
+  /** Empty string means the chat's model. */
+  model: string;
+  label: string;
+}
+
+export interface Message {
+  /** Set on a message once the conversation branches right after it. */
+  id?: string;
+  role: "user" | "assistant";
+  /** For a comparison: the preferred answer (or the first good one). */
+  content: string;
+  /** Files sent along with a user message. */
+  attachments?: Attachment[];
+  /** Tool calls made before the final answer, in order. */
+  toolSteps?: ToolStep[];
+  meta?: MessageMeta;
+  /** Several answers to the same prompt, side by side. */
+  comparison?: Comparison;
+}
+
+/**
+ * The ways a conversation went on from one message. The active slot is
+ * null: its messages are the live ones in `Conversation.messages`. Every
+ * other slot holds the rest of that branch, which may branch again.
+ */
+export interface Fork {
+  active: number;
+  alternatives: (Message[] | null)[];
+}
+
+/** Forks keyed by the id of the message they follow ("" for the first). */
+export type Branches = Record<string, Fork>;
+
+export interface ModelSettings {
+  model: string;
+  /** Preset the system prompt came from; also picks the suggestions. */
+  presetId?: string;
+  systemPrompt: string;
+  temperature: number;
+  maxTokens: number;
+  /** Matches the server's --n_ctx; history is trimmed to fit. */
+  contextSize: number;
+  // Left unset, the model server's own defaults apply
+  topP?: number;
+  stop?: string[];
+  presencePenalty?: number;
+  seed?: number;
+  /** Let the model call the server's tools (calculator, fetch, …). */
+  tools?: boolean;
+  /** Knowledge base whose excerpts are added to every request. */
+  knowledgeBaseId?: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  /** The active branch, which is all that's sent to the model. */
+  messages: Message[];
+  /** Branches left by edits and regenerations. */
+  branches?: Branches;
+  settings: ModelSettings;
+  /** Two or more targets turn on compare mode for new prompts. */
+  compareTargets?: CompareTarget[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  model: DEFAULT_MODEL,
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  temperature: 0.7,
+  maxTokens: 2048,
+  contextSize: 8192,
+};
+
+/** Map stored settings onto the /api/chat request-body fields. */
+export function toChatParams(settings: ModelSettings): ChatParams {
+  return {
+    model: settings.model,
+    systemPrompt: settings.systemPrompt,
+    temperature: settings.temperature,
+    top_p: settings.topP,
+    max_tokens: settings.maxTokens,
+    stop: settings.stop?.length ? settings.stop : undefined,
+    presence_penalty: settings.presencePenalty,
+    seed: settings.seed,
+    tools: settings.tools || undefined,
+    knowledgeBaseId: settings.knowledgeBaseId,
+  };
+}
+
+// The setting behind each request field validateChatParams reports on
+const SETTING_FOR_PARAM: Record<string, keyof ModelSettings> = {
+  model: "model",
+  systemPrompt: "systemPrompt",
+  temperature: "temperature",
+  top_p: "topP",
+  max_tokens: "maxTokens",
+  stop: "stop",
+  presence_penalty: "presencePenalty",
+  seed: "seed",
+  tools: "tools",
+  knowledgeBaseId: "knowledgeBaseId",
+};
+const SETTING_KEYS: (keyof ModelSettings)[] = [
+  ...Object.values(SETTING_FOR_PARAM),
+  "presetId",
+  "contextSize",
+];
+
+/**
+ * Settings read back from storage or an imported file, with the checks the
+ * settings modal runs. A bad field falls back to its default instead of
+ * reaching the page (or a request) as it is.
+ */
+export function parseSettings(raw: unknown): ModelSettings {
+  const source: Record<string, unknown> =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const settings: Record<string, unknown> = { ...DEFAULT_MODEL_SETTINGS };
+  for (const key of SETTING_KEYS) {
+    if (source[key] !== undefined && source[key] !== null) {
+      settings[key] = source[key];
+    }
+  }
+  // Required fields must at least have their default's type
+  for (const [key, value] of Object.entries(DEFAULT_MODEL_SETTINGS)) {
+    if (typeof settings[key] !== typeof value) settings[key] = value;
+  }
+  if (typeof settings.presetId !== "string") delete settings.presetId;
+
+  const parsed = settings as unknown as ModelSettings;
+  const validation = validateChatParams(toChatParams(parsed));
+  for (const { field } of validation.ok ? [] : validation.errors) {
+    const key = SETTING_FOR_PARAM[field];
+    if (key in DEFAULT_MODEL_SETTINGS) {
+      settings[key] = DEFAULT_MODEL_SETTINGS[key];
+    } else {
+      delete settings[key];
+    }
+  }
+  if (
+    !Number.isInteger(parsed.contextSize) ||
+    parsed.contextSize < CONTEXT_SIZE_LIMITS.min ||
+    parsed.contextSize > CONTEXT_SIZE_LIMITS.max ||
+    parsed.maxTokens >= parsed.contextSize
+  ) {
+    parsed.contextSize = DEFAULT_MODEL_SETTINGS.contextSize;
+    parsed.maxTokens = DEFAULT_MODEL_SETTINGS.maxTokens;
+  }
+  return parsed;
+}
+
+const STORAGE_KEY = "kaggle-conversations";
+const ACTIVE_KEY = "kaggle-active-conversation";
+const DEFAULT_TITLE = "New chat";
+
+function newId() {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+export function createConversation(
+  settings: ModelSettings = DEFAULT_MODEL_SETTINGS,
+): Conversation {
+  const now = Date.now();
+  return {
+    id: newId(),
+    title: DEFAULT_TITLE,
+    messages: [],
+    settings: { ...settings },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Use the first user message as the title until the user renames it. */
+export function deriveTitle(conversation: Conversation): string {
+  if (conversation.title !== DEFAULT_TITLE) return conversation.title;
+  const first = conversation.messages.find((m) => m.role === "user");
+  if (!first) return DEFAULT_TITLE;
+  // A message that is only attachments is named after the first one
+  const line =
+    first.content.trim().split("\n")[0] || first.attachments?.[0]?.name;
+  if (!line) return DEFAULT_TITLE;
+  return line.length > 48 ? line.slice(0, 47) + "…" : line;
+}
+
+export function loadConversations(): Conversation[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map((c: Conversation) => ({
+      ...c,
+      settings: parseSettings(c.settings),
+    }));
+  } catch {
+    // Corrupt storage — start fresh rather than crash the page
+    return [];
+  }
+}
+
+/**
+ * False when the browser refused (localStorage holds about 5 MB, images
+ * included); the chats stay in memory but won't survive a reload.
+ */
+export function saveConversations(conversations: Conversation[]): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(conversations));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function loadActiveId(): string | null {
+  return localStorage.getItem(ACTIVE_KEY);
+}
+
+export function saveActiveId(id: string) {
+  localStorage.setItem(ACTIVE_KEY, id);
+}
+
+export function searchConversations(
+  conversations: Conversation[],
+  query: string,
+): Conversation[] {
+  const q = query.trim().toLowerCase();
+  const sorted = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt);
+  if (!q) return sorted;
+  return sorted.filter(
+    (c) =>
+      c.title.toLowerCase().includes(q) ||
+      c.messages.some((m) => m.content.toLowerCase().includes(q)),
+  );
+}
@@ -0,0 +1,271 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/chat/route";
+import {
+  attemptUpstream,
+  backoffDelay,
+  sleepUntilAborted,
+  upstreamRetries,
+} from "@/lib/failover";
+import { REDIRECT_ERROR } from "@/lib/upstream";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+function stubFetch(respond: (init: RequestInit) => Promise<Response>) {
+  const fetchMock = vi.fn<typeof fetch>((_url, init) => respond(init ?? {}));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+// A backend that accepted the connection and never answers
+function hang(init: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init.signal?.addEventListener("abort", () =>
+      reject(new DOMException("The operation was aborted.", "AbortError")),
+    );
+  });
+}
+
+const attempt = (signal = new AbortController().signal) =>
+  attemptUpstream("http://backend/v1/chat/completions", {
+    method: "POST",
+    signal,
+  });
+
+describe("attemptUpstream", () => {
+  it("hands back the body of a streaming answer", async () => {
+    stubFetch(async () => new Response("data: {}\n\n"));
+    const result = await attempt();
+    expect(result.ok).toBe(true);
+  });
+
+  it("never follows redirects", async () => {
+    const fetchMock = stubFetch(
+      async () =>
+        new Response(null, {
+          status: 307,
+          headers: { Location: "http://169.254.169.254/" },
+        }),
+    );
+    expect(await attempt()).toEqual({
+      ok: false,
+      retryable: false,
+      status: 502,
+      category: "upstream_status",
+      error: REDIRECT_ERROR,
+    });
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: "manual" });
+  });
+
+  it.each([
+    [502, true],
+    [503, true],
+    [401, false],
+    [404, false],
+    [500, false],
+  ])("classifies HTTP %i (retryable: %s)", async (status, retryable) => {
+    stubFetch(async () => new Response('{"error":"nope"}', { status }));
+    expect(await attempt()).toEqual({
+      ok: false,
+      retryable,
+      status,
+      category: "upstream_status",
+      error: `API Error (${status}): {"error":"nope"}`,
+    });
+  });
+
+  it("recognises the ngrok page on an error status", async () => {
+    stubFetch(
+      async () => new Response("<html>ngrok offline</html>", { status: 404 }),
+    );
+    expect(await attempt()).toMatchObject({
+      ok: false,
+      retryable: true,
+      category: "ngrok_html",
+    });
+  });
+
+  it("recognises the ngrok warning page served with 200", async () => {
+    stubFetch(
+      async () =>
+        new Response("<html>Visit site</html>", {
+          headers: { "Content-Type": "text/html" },
+        }),
+    );
+    expect(await attempt()).toMatchObject({
+      ok: false,
+      retryable: true,
+      category: "ngrok_html",
+    });
+  });
+
+  it("counts a refused connection as unreachable and retryable", async () => {
+    stubFetch(async () => {
+      throw new TypeError("fetch failed");
+    });
+    expect(await attempt()).toEqual({
+      ok: false,
+      retryable: true,
+      status: 504,
+      category: "unreachable",
+      error: "Cannot reach the model server: fetch failed",
+    });
+  });
+
+  it("gives up on a hanging backend at the attempt deadline", async () => {
+    vi.stubEnv("UPSTREAM_ATTEMPT_TIMEOUT_MS", "20");
+    stubFetch(hang);
+    expect(await attempt()).toMatchObject({
+      ok: false,
+      retryable: true,
+      status: 504,
+      category: "timeout",
+      error: expect.stringContaining("within 0.02 s"),
+    });
+  });
+
+  it("doesn't retry once the overall deadline has passed", async () => {
+    const deadline = new AbortController();
+    stubFetch(hang);
+    const pending = attempt(deadline.signal);
+    deadline.abort();
+    expect(await pending).toMatchObject({
+      ok: false,
+      retryable: false,
+      category: "timeout",
+    });
+  });
+});
+
+describe("retry tuning", () => {
+  it("doubles the backoff each attempt, within ±20% jitter", () => {
+    vi.stubEnv("UPSTREAM_RETRY_BASE_MS", "100");
+    for (const [attempt, base] of [
+      [0, 100],
+      [1, 200],
+      [2, 400],
+    ]) {
+      const delay = backoffDelay(attempt);
+      expect(delay).toBeGreaterThanOrEqual(base * 0.8);
+      expect(delay).toBeLessThanOrEqual(base * 1.2);
+    }
+  });
+
+  it("reads the retry count, falling back on bad values", () => {
+    expect(upstreamRetries()).toBe(2);
+    vi.stubEnv("UPSTREAM_RETRIES", "0");
+    expect(upstreamRetries()).toBe(0);
+    vi.stubEnv("UPSTREAM_RETRIES", "-1");
+    expect(upstreamRetries()).toBe(2);
+  });
+
+  it("cuts the backoff short when the request is aborted", async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const waiting = sleepUntilAborted(10_000, controller.signal);
+    controller.abort();
+    await waiting;
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe("failover in /api/chat", () => {
+  beforeEach(() => {
+    // Profiles are cached on first read, so every test here shares these two
+    vi.stubEnv(
+      "BACKEND_PROFILES",
+      JSON.stringify([
+        { id: "a", label: "A", url: "http://a/v1" },
+        { id: "b", label: "B", url: "http://b/v1" },
+      ]),
+    );
+    vi.stubEnv("UPSTREAM_RETRY_BASE_MS", "1");
+  });
+
+  const answer = () =>
+    new Response(
+      'data: {"choices":[{"delta":{"content":"hi"},"finish_reason":"stop"}]}\n\ndata: [DONE]\n\n',
+    );
+
+  // Each backend answers with the next of its responses, then repeats the last
+  function backends(
+    plan: Record<string, ((init: RequestInit) => Promise<Response>)[]>,
+  ) {
+    const calls: string[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn<typeof fetch>(async (url, init) => {
+        const host = new URL(String(url)).host;
+        const step = calls.filter((c) => c === host).length;
+        calls.push(host);
+        const steps = plan[host];
+        return steps[Math.min(step, steps.length - 1)](init ?? {});
+      }),
+    );
+    return calls;
+  }
+
+  async function chat() {
+    const response = await POST(
+      new NextRequest("http://app/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          messages: [{ role: "user", content: "hello" }],
+          backends: [{ profileId: "a" }, { profileId: "b" }],
+        }),
+      }),
+    );
+    const text = await response.text();
+    return { status: response.status, text };
+  }
+
+  it("retries a 502 on the same backend", async () => {
+    const calls = backends({
+      a: [
+        async () => new Response("bad gateway", { status: 502 }),
+        async () => answer(),
+      ],
+      b: [async () => answer()],
+    });
+    const { status, text } = await chat();
+    expect(status).toBe(200);
+    expect(text).toContain('"backend":"A"');
+    expect(calls).toEqual(["a", "a"]);
+  });
+
+  it("moves on to the next backend after a 401 without retrying", async () => {
+    const calls = backends({
+      a: [async () => new Response("bad key", { status: 401 })],
+      b: [async () => answer()],
+    });
+    const { text } = await chat();
+    expect(text).toContain('"backend":"B","skipped":["A"]');
+    expect(calls).toEqual(["a", "b"]);
+  });
+
+  it("moves on from a hanging backend at its attempt deadline", async () => {
+    vi.stubEnv("UPSTREAM_ATTEMPT_TIMEOUT_MS", "20");
+    const calls = backends({ a: [hang], b: [async () => answer()] });
+    const { text } = await chat();
+    expect(text).toContain('"backend":"B","skipped":["A"]');
+    expect(calls).toEqual(["a", "b"]);
+  });
+
+  it("reports the last error once every backend has failed", async () => {
+    const calls = backends({
+      a: [async () => new Response("down", { status: 503 })],
+      b: [async () => new Response("missing", { status: 404 })],
+    });
+    const { status, text } = await chat();
+    expect(status).toBe(404);
+    expect(JSON.parse(text).error).toBe(
+      "No backend answered (tried A, B). Last error: API Error (404): missing",
+    );
+    // Two retries on A, then B's non-retryable failure
+    expect(calls).toEqual(["a", "a", "a", "b"]);
+  });
+});
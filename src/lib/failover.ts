@@ -0,0 +1,205 @@
+import {
+  REDIRECT_ERROR,
+  isHtmlResponse,
+  isNgrokHtml,
+  isRedirect,
+} from "@/lib/upstream";
+
+/**
+ * Retries for the upstream chat request. Each backend in the client's list
+ * gets a few attempts with exponential backoff for failures worth retrying —
+ * connection errors, 502/503 and the ngrok interstitial. Any other failure,
+ * a backend that hangs past its per-attempt deadline, or running out of
+ * attempts hands over to the next backend. All of this happens before the
+ * first byte reaches the browser; once a response streams, failures are
+ * reported in-band.
+ *
+ * Tuning (env):
+ *   UPSTREAM_RETRIES             extra attempts per backend (2)
+ *   UPSTREAM_RETRY_BASE_MS       first backoff delay, doubled each time (500)
+ *   UPSTREAM_ATTEMPT_TIMEOUT_MS  how long one attempt may wait for the
+ *                                response to start (15000)
+ */
+
+/** More than this and the 55 s deadline can't give each one a fair try. */
+export const MAX_FAILOVER_BACKENDS = 4;
+
+const RETRYABLE_STATUSES = new Set([502, 503]);
+
+/** Why an attempt failed, as counted in the metrics. */
+export type FailureCategory =
+  "timeout" | "unreachable" | "ngrok_html" | "upstream_status";
+
+export type AttemptResult =
+  | { ok: true; body: ReadableStream<Uint8Array> }
+  | {
+      ok: false;
+      /** Worth another attempt; anything else goes to the next backend. */
+      retryable: boolean;
+      status: number;
+      error: string;
+      category: FailureCategory;
+    };
+
+function envInteger(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+export function upstreamRetries(): number {
+  return envInteger("UPSTREAM_RETRIES", 2);
+}
+
+export function attemptTimeoutMs(): number {
+  return envInteger("UPSTREAM_ATTEMPT_TIMEOUT_MS", 15000);
+}
+
+/** Delay before retry number `attempt` (0-based), with ±20% jitter. */
+export function backoffDelay(attempt: number): number {
+  const base = envInteger("UPSTREAM_RETRY_BASE_MS", 500) * 2 ** attempt;
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Resolves after `ms`, or straight away once `signal` aborts. Unlike
+ * chatStream's `sleep` it never rejects; the caller checks the signal.
+ */
+export function sleepUntilAborted(
+  ms: number,
+  signal: AbortSignal,
+): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+    if (signal.aborted) done();
+    else signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * One POST to a backend, with the failure classified for retrying. Aborting
+ * `init.signal` (the overall deadline, or the user stopping) also ends the
+ * response stream; the attempt's own deadline only covers the wait for the
+ * response to start.
+ */
+export async function attemptUpstream(
+  url: string,
+  init: RequestInit,
+): Promise<AttemptResult> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (init.signal?.aborted) abort();
+  else init.signal?.addEventListener("abort", abort, { once: true });
+  let timedOut = false;
+  const timeoutMs = attemptTimeoutMs();
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      redirect: "manual",
+      signal: controller.signal,
+    });
+  } catch (fetchErr: unknown) {
+    // A backend that accepted the connection but hangs; the next one may not
+    if (timedOut) {
+      return {
+        ok: false,
+        retryable: true,
+        status: 504,
+        category: "timeout",
+        error: `Model server didn't start answering within ${timeoutMs / 1000} s. Make sure your Kaggle notebook is still running.`,
+      };
+    }
+    // Our own deadline — no time left to retry. The user stopping ends up
+    // here too; the route checks for that before counting it as a timeout
+    if (fetchErr instanceof DOMException && fetchErr.name === "AbortError") {
+      return {
+        ok: false,
+        retryable: false,
+        status: 504,
+        category: "timeout",
+        error:
+          "Model server timed out (55 s). Make sure your Kaggle notebook is still running.",
+      };
+    }
+    return {
+      ok: false,
+      retryable: true,
+      status: 504,
+      category: "unreachable",
+      error: `Cannot reach the model server: ${
+        fetchErr instanceof Error ? fetchErr.message : "unknown error"
+      }`,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (isRedirect(response)) {
+    response.body?.cancel().catch(() => {});
+    return {
+      ok: false,
+      retryable: false,
+      status: 502,
+      category: "upstream_status",
+      error: REDIRECT_ERROR,
+    };
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+
+    if (isNgrokHtml(errorText)) {
+      return {
+        ok: false,
+        retryable: true,
+        status: 502,
+        category: "ngrok_html",
+        error:
+          "Ngrok tunnel returned HTML instead of JSON. The tunnel may have expired — restart your Kaggle notebook.",
+      };
+    }
+
+    return {
+      ok: false,
+      retryable: RETRYABLE_STATUSES.has(response.status),
+      status: response.status,
+      category: "upstream_status",
+      error: `API Error (${response.status}): ${errorText.substring(0, 200) || "Connection failed"}`,
+    };
+  }
+
+  // Check if we got HTML back (ngrok warning page on 200)
+  if (isHtmlResponse(response)) {
+    response.body?.cancel().catch(() => {});
+    return {
+      ok: false,
+      retryable: true,
+      status: 502,
+      category: "ngrok_html",
+      error:
+        "Received HTML from ngrok instead of JSON. Restart your Kaggle notebook to get a fresh tunnel.",
+    };
+  }
+
+  if (!response.body) {
+    return {
+      ok: false,
+      retryable: true,
+      status: 502,
+      category: "upstream_status",
+      error: "No response body from model server.",
+    };
+  }
+
+  return { ok: true, body: response.body };
+}
@@ -0,0 +1,47 @@
+import { BackendSelection, backendHeaders } from "@/lib/backends";
+
+export type HealthState =
+  "reachable" | "auth_failed" | "tunnel_expired" | "timeout" | "unreachable";
+
+export interface HealthResult {
+  state: HealthState;
+  /** Round-trip time to the model server, when it answered at all. */
+  latencyMs: number | null;
+  message: string;
+}
+
+export const HEALTH_LABELS: Record<HealthState, string> = {
+  reachable: "Connected",
+  auth_failed: "API key rejected",
+  tunnel_expired: "Tunnel expired",
+  timeout: "Timed out",
+  unreachable: "Unreachable",
+};
+
+/** Ask GET /api/health how the backend is doing. Never throws. */
+export async function checkHealth(
+  backend: BackendSelection,
+  signal?: AbortSignal,
+): Promise<HealthResult> {
+  try {
+    const response = await fetch("/api/health", {
+      headers: backendHeaders(backend),
+      cache: "no-store",
+      signal,
+    });
+    const data = await response.json();
+    if (data?.state) return data as HealthResult;
+    return {
+      state: "unreachable",
+      latencyMs: null,
+      message: data?.error || `Server error (${response.status})`,
+    };
+  } catch (err) {
+    if (err instanceof Error && err.name === "AbortError") throw err;
+    return {
+      state: "unreachable",
+      latencyMs: null,
+      message: "Cannot reach this app's /api/health route.",
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import type { KnowledgeBaseInfo } from "@/lib/knowledgeStore";
+
+/**
+ * Client for /api/knowledge. Knowledge bases live on the server; like share
+ * links, the browser remembers the delete token of every base it uploaded,
+ * and those are the bases it offers. A conversation opts into one through
+ * its settings.
+ */
+
+export type { KnowledgeBaseInfo };
+
+/** A knowledge base this browser uploaded. */
+export interface KnowledgeBaseLink extends KnowledgeBaseInfo {
+  deleteToken: string;
+}
+
+const KNOWLEDGE_KEY = "kaggle-knowledge-bases";
+
+async function errorFrom(response: Response): Promise<Error> {
+  const data = await response.json().catch(() => ({}));
+  return new Error(data.error || `Server error (${response.status})`);
+}
+
+export function loadKnowledgeBases(): KnowledgeBaseLink[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(KNOWLEDGE_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveKnowledgeBases(bases: KnowledgeBaseLink[]) {
+  localStorage.setItem(KNOWLEDGE_KEY, JSON.stringify(bases));
+}
+
+/** The remembered bases that still exist on the server. */
+export async function fetchKnowledgeBases(
+  bases: KnowledgeBaseLink[],
+): Promise<KnowledgeBaseLink[]> {
+  if (bases.length === 0) return [];
+  const ids = bases.map((b) => b.id).join(",");
+  const response = await fetch(`/api/knowledge?ids=${ids}`);
+  if (!response.ok) throw await errorFrom(response);
+  const found: KnowledgeBaseInfo[] = (await response.json()).bases;
+  return bases.filter((b) => found.some((f) => f.id === b.id));
+}
+
+/** Upload files (or zips of them); folder picks keep their relative paths. */
+export async function uploadKnowledgeBase(
+  name: string,
+  files: File[],
+): Promise<KnowledgeBaseLink & { skipped: number }> {
+  const form = new FormData();
+  form.append("name", name);
+  for (const file of files) {
+    form.append("files", file, file.webkitRelativePath || file.name);
+  }
+  const response = await fetch("/api/knowledge", {
+    method: "POST",
+    body: form,
+  });
+  if (!response.ok) throw await errorFrom(response);
+  return response.json();
+}
+
+export async function deleteKnowledgeBase(
+  base: KnowledgeBaseLink,
+): Promise<void> {
+  const response = await fetch(`/api/knowledge/${base.id}`, {
+    method: "DELETE",
+    headers: { "x-delete-token": base.deleteToken },
+  });
+  // Already gone is as good as deleted
+  if (!response.ok && response.status !== 404) throw await errorFrom(response);
+}
@@ -0,0 +1,210 @@
+import { randomBytes } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import {
+  MAX_KNOWLEDGE_PROMPT_CHARS,
+  ScoredChunk,
+  SearchIndex,
+  buildIndex,
+  chunkFile,
+  knowledgePrompt,
+  search,
+} from "@/lib/retrieval";
+import { readZip } from "@/lib/zip";
+
+/**
+ * Server-side knowledge bases: uploaded project files, chunked and indexed
+ * for retrieval. Like the share store, it sits behind an interface so a KV
+ * or database store can replace the file-system default, and like share
+ * links a base can only be deleted with the token returned on upload.
+ * Nothing lists every base: the uploading browser remembers its own.
+ *
+ * Config (env):
+ *   KNOWLEDGE_DIR   where the file store keeps indexes (./.knowledge)
+ *   RAG_TOP_K       excerpts added to each request (4, at most 10)
+ */
+
+export interface KnowledgeBaseInfo {
+  id: string;
+  name: string;
+  files: number;
+  chunks: number;
+  createdAt: number;
+}
+
+/** A stored base; the delete token is only ever kept hashed. */
+export interface KnowledgeBase extends KnowledgeBaseInfo {
+  index: SearchIndex;
+  deleteTokenHash: string;
+}
+
+export interface KnowledgeStore {
+  put(base: KnowledgeBase): Promise<void>;
+  get(id: string): Promise<KnowledgeBase | null>;
+  delete(id: string): Promise<void>;
+}
+
+const KNOWLEDGE_ID_PATTERN = /^[A-Za-z0-9_-]{16}$/;
+
+export function isKnowledgeId(id: unknown): id is string {
+  return typeof id === "string" && KNOWLEDGE_ID_PATTERN.test(id);
+}
+
+export function newKnowledgeId(): string {
+  return randomBytes(12).toString("base64url");
+}
+
+// Indexes are read on every chat request that uses them
+const CACHED_INDEXES = 4;
+
+export class FileKnowledgeStore implements KnowledgeStore {
+  private cache = new Map<string, KnowledgeBase>();
+
+  constructor(private dir: string) {}
+
+  // Ids are checked against KNOWLEDGE_ID_PATTERN, so they can't leave `dir`
+  private file(id: string, kind: "info" | "index") {
+    if (!isKnowledgeId(id)) throw new Error("Invalid knowledge base id");
+    return path.join(this.dir, `${id}.${kind}.json`);
+  }
+
+  async put(base: KnowledgeBase): Promise<void> {
+    const { index, ...info } = base;
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.file(base.id, "index"), JSON.stringify(index), "utf8");
+    await writeFile(this.file(base.id, "info"), JSON.stringify(info), "utf8");
+  }
+
+  async get(id: string): Promise<KnowledgeBase | null> {
+    if (!isKnowledgeId(id)) return null;
+    const cached = this.cache.get(id);
+    if (cached) return cached;
+    let base: KnowledgeBase;
+    try {
+      const info = JSON.parse(await readFile(this.file(id, "info"), "utf8"));
+      const index = JSON.parse(await readFile(this.file(id, "index"), "utf8"));
+      base = { ...info, index };
+    } catch {
+      return null;
+    }
+    this.cache.set(id, base);
+    if (this.cache.size > CACHED_INDEXES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return base;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!isKnowledgeId(id)) return;
+    this.cache.delete(id);
+    await rm(this.file(id, "info"), { force: true });
+    await rm(this.file(id, "index"), { force: true });
+  }
+}
+
+/** The public part of a base. */
+export function knowledgeBaseInfo(base: KnowledgeBase): KnowledgeBaseInfo {
+  const { id, name, files, chunks, createdAt } = base;
+  return { id, name, files, chunks, createdAt };
+}
+
+let store: KnowledgeStore = new FileKnowledgeStore(
+  path.resolve(process.env.KNOWLEDGE_DIR || ".knowledge"),
+);
+
+export function getKnowledgeStore(): KnowledgeStore {
+  return store;
+}
+
+export function setKnowledgeStore(next: KnowledgeStore) {
+  store = next;
+}
+
+export const UPLOAD_LIMITS = {
+  maxFiles: 2000,
+  maxTotalBytes: 20 * 1024 * 1024,
+  maxFileBytes: 512 * 1024,
+};
+
+// Dependencies and build output would drown out the project's own code
+const SKIPPED_PATH =
+  /(^|\/)(node_modules|\.git|\.next|dist|build|out|coverage|vendor|__pycache__|\.venv)\//;
+
+export interface Upload {
+  name: string;
+  data: Buffer;
+}
+
+export interface ProjectFile {
+  path: string;
+  text: string;
+}
+
+/**
+ * The text files in an upload, with zips unpacked. Binary, minified,
+ * oversized and vendored files are counted as skipped.
+ */
+export function collectTextFiles(uploads: Upload[]): {
+  files: ProjectFile[];
+  skipped: number;
+} {
+  const files: ProjectFile[] = [];
+  let skipped = 0;
+  const add = ({ name, data }: Upload) => {
+    const filePath = name.replace(/\\/g, "/").replace(/^(\.\/|\/)+/, "");
+    if (
+      SKIPPED_PATH.test(filePath) ||
+      data.length > UPLOAD_LIMITS.maxFileBytes ||
+      data.includes(0)
+    ) {
+      skipped++;
+      return;
+    }
+    const text = data.toString("utf8");
+    if (!text.trim()) return;
+    if (/[^\n]{2000}/.test(text)) {
+      skipped++;
+      return;
+    }
+    files.push({ path: filePath, text });
+  };
+
+  for (const upload of uploads) {
+    if (/\.zip$/i.test(upload.name)) {
+      readZip(upload.data, {
+        maxEntries: UPLOAD_LIMITS.maxFiles * 2,
+        maxTotalBytes: UPLOAD_LIMITS.maxTotalBytes,
+        maxEntryBytes: UPLOAD_LIMITS.maxFileBytes,
+      }).forEach(add);
+    } else {
+      add(upload);
+    }
+  }
+  if (files.length > UPLOAD_LIMITS.maxFiles) {
+    throw new Error(`Upload at most ${UPLOAD_LIMITS.maxFiles} files`);
+  }
+  return { files, skipped };
+}
+
+export function indexFiles(files: ProjectFile[]): SearchIndex {
+  return buildIndex(files.flatMap((f) => chunkFile(f.path, f.text)));
+}
+
+export function ragTopK(): number {
+  const k = Number(process.env.RAG_TOP_K);
+  return Number.isInteger(k) && k > 0 ? Math.min(k, 10) : 4;
+}
+
+/**
+ * The best chunks for `query` whose prompt section (citations and fences
+ * included) fits MAX_KNOWLEDGE_PROMPT_CHARS, the room the browser left.
+ */
+export function retrieve(base: KnowledgeBase, query: string): ScoredChunk[] {
+  const picked: ScoredChunk[] = [];
+  for (const chunk of search(base.index, query, ragTopK())) {
+    const prompt = knowledgePrompt([...picked, chunk]);
+    if (prompt.length > MAX_KNOWLEDGE_PROMPT_CHARS) break;
+    picked.push(chunk);
+  }
+  return picked;
+}
@@ -0,0 +1,50 @@
+import { defaultUrlTransform } from "react-markdown";
+import { defaultSchema } from "rehype-sanitize";
+import type { Options } from "rehype-sanitize";
+
+/**
+ * Model output and echoed prompts are untrusted. Everything rendered into a
+ * message goes through four layers:
+ *
+ * 1. `remarkEscapeHtml` turns raw HTML in the markdown into literal text, so
+ *    `<img onerror=...>` shows up as characters instead of an element.
+ * 2. `rehype-sanitize` with `sanitizeSchema` strips any element, attribute or
+ *    URL protocol that isn't on GitHub's allow-list.
+ * 3. `safeUrlTransform` drops `javascript:`, `data:` and friends from links
+ *    and images before React ever sees them.
+ * 4. `Markdown` renders images as links instead of loading them, so model
+ *    output can't smuggle chat text out in an image URL.
+ *
+ * Syntax highlighting runs after sanitizing, so its `hljs-*` classes are
+ * the only markup added to the tree afterwards.
+ */
+
+interface MdastNode {
+  type: string;
+  value?: string;
+  children?: MdastNode[];
+}
+
+export function remarkEscapeHtml() {
+  const visit = (node: MdastNode) => {
+    if (node.type === "html") {
+      // A text node is escaped by React when rendered
+      node.type = "text";
+    }
+    node.children?.forEach(visit);
+  };
+  return (tree: MdastNode) => visit(tree);
+}
+
+// GitHub's allow-list: enough for GFM tables, task lists and `language-*`
+// classes on code, and nothing that can carry script.
+export const sanitizeSchema: Options = defaultSchema;
+
+const SAFE_PROTOCOL = /^(https?:|mailto:)/i;
+
+export function safeUrlTransform(url: string): string {
+  const transformed = defaultUrlTransform(url);
+  // Relative links and anchors have no protocol and are fine
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(transformed)) return transformed;
+  return SAFE_PROTOCOL.test(transformed) ? transformed : "";
+}
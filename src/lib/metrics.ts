@@ -0,0 +1,41 @@
+import type { MetricsReport } from "@/lib/metricsStore";
+
+/**
+ * Client for /api/metrics, used by the /admin page. When the server sets
+ * METRICS_TOKEN, the token is asked for once and kept in this browser.
+ */
+
+export type {
+  ErrorCategory,
+  MetricsReport,
+  RequestMetric,
+  SeriesPoint,
+} from "@/lib/metricsStore";
+
+const TOKEN_KEY = "kaggle-metrics-token";
+
+export class MetricsAuthError extends Error {}
+
+export function loadMetricsToken(): string {
+  return localStorage.getItem(TOKEN_KEY) || "";
+}
+
+export function saveMetricsToken(token: string) {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+}
+
+export async function fetchMetrics(token: string): Promise<MetricsReport> {
+  const response = await fetch("/api/metrics", {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    cache: "no-store",
+  });
+  if (response.status === 401) {
+    throw new MetricsAuthError("This server needs a metrics token.");
+  }
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Server error (${response.status})`);
+  }
+  return response.json();
+}
@@ -0,0 +1,404 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { FailureCategory } from "@/lib/failover";
+
+/**
+ * Per-request metrics for /api/chat: latency to the first token, decode
+ * speed, token counts and why requests failed. Requests go to a sink; the
+ * default keeps the latest ones in a ring buffer, plus running totals since
+ * the server started, and a shared time-series store can replace it.
+ *
+ * Config (env):
+ *   METRICS_BUFFER_SIZE  requests kept for percentiles and charts (1000)
+ *   METRICS_TOKEN        when set, /api/metrics needs
+ *                        `Authorization: Bearer <token>`
+ */
+
+export type RequestOutcome = "ok" | "error" | "cancelled";
+
+/**
+ * `rate_limited`: the client's bucket was empty. `busy`: every backend was
+ * at its concurrent-stream cap. `stream`: the reply failed mid-stream.
+ */
+export type ErrorCategory =
+  FailureCategory | "stream" | "rate_limited" | "busy";
+
+export const ERROR_CATEGORIES: ErrorCategory[] = [
+  "timeout",
+  "unreachable",
+  "ngrok_html",
+  "upstream_status",
+  "stream",
+  "rate_limited",
+  "busy",
+];
+
+export interface RequestMetric {
+  /** When the request arrived (epoch ms). */
+  at: number;
+  outcome: RequestOutcome;
+  errorCategory?: ErrorCategory;
+  /** Label of the backend that answered (or failed last). */
+  backend?: string;
+  model: string;
+  ttftMs?: number;
+  durationMs: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  tokensPerSecond?: number;
+  /** Upstream attempts made after a failed one. */
+  retries: number;
+}
+
+export interface MetricsTotals {
+  requests: Record<RequestOutcome, number>;
+  errors: Record<ErrorCategory, number>;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface MetricsSnapshot {
+  /** When the totals started counting. */
+  since: number;
+  totals: MetricsTotals;
+  /** The latest requests, oldest first. */
+  recent: RequestMetric[];
+}
+
+export interface MetricsSink {
+  record(metric: RequestMetric): Promise<void>;
+  snapshot(): Promise<MetricsSnapshot>;
+}
+
+function emptyTotals(): MetricsTotals {
+  return {
+    requests: { ok: 0, error: 0, cancelled: 0 },
+    errors: Object.fromEntries(ERROR_CATEGORIES.map((c) => [c, 0])) as Record<
+      ErrorCategory,
+      number
+    >,
+    promptTokens: 0,
+    completionTokens: 0,
+  };
+}
+
+export class RingBufferSink implements MetricsSink {
+  private buffer: RequestMetric[] = [];
+  // Where the next metric goes once the buffer is full
+  private next = 0;
+  private since = Date.now();
+  private totals = emptyTotals();
+
+  constructor(private capacity: number) {}
+
+  async record(metric: RequestMetric): Promise<void> {
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(metric);
+    } else {
+      this.buffer[this.next] = metric;
+      this.next = (this.next + 1) % this.capacity;
+    }
+    this.totals.requests[metric.outcome]++;
+    if (metric.errorCategory) this.totals.errors[metric.errorCategory]++;
+    this.totals.promptTokens += metric.promptTokens ?? 0;
+    this.totals.completionTokens += metric.completionTokens ?? 0;
+  }
+
+  async snapshot(): Promise<MetricsSnapshot> {
+    return {
+      since: this.since,
+      totals: structuredClone(this.totals),
+      recent: [
+        ...this.buffer.slice(this.next),
+        ...this.buffer.slice(0, this.next),
+      ],
+    };
+  }
+}
+
+function metricsBufferSize(): number {
+  const size = Number(process.env.METRICS_BUFFER_SIZE);
+  return Number.isInteger(size) && size > 0 ? Math.min(size, 100000) : 1000;
+}
+
+let sink: MetricsSink = new RingBufferSink(metricsBufferSize());
+
+export function getMetricsSink(): MetricsSink {
+  return sink;
+}
+
+export function setMetricsSink(next: MetricsSink) {
+  sink = next;
+}
+
+/**
+ * Times one chat request and records it exactly once, whichever way it
+ * ends — later calls to finish/fail/cancel are ignored.
+ */
+export class RequestTrace {
+  private at = Date.now();
+  private started = performance.now();
+  private firstTokenAt: number | null = null;
+  private deltas = 0;
+  private promptTokens: number | undefined;
+  private completionTokens: number | undefined;
+  private recorded = false;
+  backend: string | undefined;
+  retries = 0;
+
+  constructor(private model: string) {}
+
+  /** A streamed piece of the reply (content or a tool call). */
+  token() {
+    this.firstTokenAt ??= performance.now();
+    this.deltas++;
+  }
+
+  /** Usage reports add up: each tool round reports its own. */
+  usage(promptTokens: number, completionTokens: number) {
+    this.promptTokens = (this.promptTokens ?? 0) + promptTokens;
+    this.completionTokens = (this.completionTokens ?? 0) + completionTokens;
+  }
+
+  finish() {
+    this.record("ok");
+  }
+
+  fail(category: ErrorCategory) {
+    this.record("error", category);
+  }
+
+  cancel() {
+    this.record("cancelled");
+  }
+
+  private record(outcome: RequestOutcome, errorCategory?: ErrorCategory) {
+    if (this.recorded) return;
+    this.recorded = true;
+    const now = performance.now();
+    const metric: RequestMetric = {
+      at: this.at,
+      outcome,
+      model: this.model,
+      durationMs: Math.round(now - this.started),
+      retries: this.retries,
+      ...(errorCategory && { errorCategory }),
+      ...(this.backend && { backend: this.backend }),
+      ...(this.promptTokens !== undefined && {
+        promptTokens: this.promptTokens,
+      }),
+      ...(this.completionTokens !== undefined && {
+        completionTokens: this.completionTokens,
+      }),
+    };
+    if (this.firstTokenAt !== null) {
+      metric.ttftMs = Math.round(this.firstTokenAt - this.started);
+      // The first token's wait is the TTFT; the rest is decoding. Servers
+      // that don't report usage get roughly one delta per token.
+      const decoded = (this.completionTokens ?? this.deltas) - 1;
+      const seconds = (now - this.firstTokenAt) / 1000;
+      if (decoded > 0 && seconds > 0) {
+        metric.tokensPerSecond = Math.round((decoded / seconds) * 10) / 10;
+      }
+    }
+    sink.record(metric).catch(() => {});
+  }
+}
+
+export interface Percentiles {
+  p50: number;
+  p95: number;
+}
+
+export interface MetricsSummary {
+  requests: number;
+  errors: number;
+  /** Errors over finished requests; cancelled ones don't count. */
+  errorRate: number;
+  ttftMs: Percentiles | null;
+  tokensPerSecond: Percentiles | null;
+  durationMs: Percentiles | null;
+}
+
+/** One bucket of the charts; null where no request measured the value. */
+export interface SeriesPoint {
+  at: number;
+  requests: number;
+  errors: number;
+  ttftMs: number | null;
+  tokensPerSecond: number | null;
+}
+
+export interface MetricsReport {
+  since: number;
+  totals: MetricsTotals;
+  /** Over the requests still in the buffer. */
+  summary: MetricsSummary;
+  bucketMs: number;
+  series: SeriesPoint[];
+  /** The latest requests, newest first. */
+  recent: RequestMetric[];
+}
+
+/** Nearest-rank percentile of unsorted values. */
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+function percentiles(values: (number | undefined)[]): Percentiles | null {
+  const present = values.filter((v): v is number => v !== undefined);
+  if (present.length === 0) return null;
+  return { p50: percentile(present, 50), p95: percentile(present, 95) };
+}
+
+export function summarize(metrics: RequestMetric[]): MetricsSummary {
+  const errors = metrics.filter((m) => m.outcome === "error").length;
+  const finished = metrics.filter((m) => m.outcome !== "cancelled").length;
+  const ok = metrics.filter((m) => m.outcome === "ok");
+  return {
+    requests: metrics.length,
+    errors,
+    errorRate: finished ? errors / finished : 0,
+    ttftMs: percentiles(metrics.map((m) => m.ttftMs)),
+    tokensPerSecond: percentiles(ok.map((m) => m.tokensPerSecond)),
+    durationMs: percentiles(ok.map((m) => m.durationMs)),
+  };
+}
+
+const SERIES_POINTS = 60;
+const MINUTE_MS = 60000;
+
+/**
+ * Bucket requests from `start` until `now` into about SERIES_POINTS
+ * buckets of whole minutes, with medians per bucket.
+ */
+export function timeSeries(
+  metrics: RequestMetric[],
+  start: number,
+  now = Date.now(),
+): { bucketMs: number; series: SeriesPoint[] } {
+  const minutes = Math.ceil((now - start) / MINUTE_MS / SERIES_POINTS);
+  const bucketMs = Math.max(1, minutes) * MINUTE_MS;
+  const first = Math.floor(start / bucketMs) * bucketMs;
+  const count = Math.floor((now - first) / bucketMs) + 1;
+  const buckets: RequestMetric[][] = Array.from({ length: count }, () => []);
+  for (const metric of metrics) {
+    const i = Math.floor((metric.at - first) / bucketMs);
+    if (i >= 0 && i < count) buckets[i].push(metric);
+  }
+  const median = (values: (number | undefined)[]) =>
+    percentiles(values)?.p50 ?? null;
+  return {
+    bucketMs,
+    series: buckets.map((bucket, i) => ({
+      at: first + i * bucketMs,
+      requests: bucket.length,
+      errors: bucket.filter((m) => m.outcome === "error").length,
+      ttftMs: median(bucket.map((m) => m.ttftMs)),
+      tokensPerSecond: median(
+        bucket.filter((m) => m.outcome === "ok").map((m) => m.tokensPerSecond),
+      ),
+    })),
+  };
+}
+
+const RECENT_IN_REPORT = 50;
+
+export function buildReport(snapshot: MetricsSnapshot): MetricsReport {
+  const { since, totals, recent } = snapshot;
+  // The charts cover what the buffer still holds, back to the server start
+  const start = recent.length > 0 ? Math.min(since, recent[0].at) : since;
+  return {
+    since,
+    totals,
+    summary: summarize(recent),
+    ...timeSeries(recent, start),
+    recent: recent.slice(-RECENT_IN_REPORT).reverse(),
+  };
+}
+
+/** The report in the Prometheus text exposition format. */
+export function toPrometheus(report: MetricsReport): string {
+  const lines: string[] = [];
+  const metric = (
+    name: string,
+    type: "counter" | "gauge",
+    help: string,
+    samples: [labels: string, value: number][],
+  ) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [labels, value] of samples) {
+      lines.push(`${name}${labels ? `{${labels}}` : ""} ${value}`);
+    }
+  };
+  const quantiles = (p: Percentiles | null, scale: number) =>
+    p
+      ? ([
+          ['quantile="0.5"', p.p50 * scale],
+          ['quantile="0.95"', p.p95 * scale],
+        ] as [string, number][])
+      : [];
+
+  const { totals, summary } = report;
+  metric(
+    "chat_requests_total",
+    "counter",
+    "Chat requests since the server started, by outcome.",
+    Object.entries(totals.requests).map(([o, n]) => [`outcome="${o}"`, n]),
+  );
+  metric(
+    "chat_errors_total",
+    "counter",
+    "Failed chat requests since the server started, by category.",
+    Object.entries(totals.errors).map(([c, n]) => [`category="${c}"`, n]),
+  );
+  metric(
+    "chat_prompt_tokens_total",
+    "counter",
+    "Prompt tokens reported by the model servers.",
+    [["", totals.promptTokens]],
+  );
+  metric(
+    "chat_completion_tokens_total",
+    "counter",
+    "Completion tokens reported by the model servers.",
+    [["", totals.completionTokens]],
+  );
+  metric(
+    "chat_ttft_seconds",
+    "gauge",
+    "Time to first token over the recent requests.",
+    quantiles(summary.ttftMs, 1 / 1000),
+  );
+  metric(
+    "chat_tokens_per_second",
+    "gauge",
+    "Decode speed over the recent requests.",
+    quantiles(summary.tokensPerSecond, 1),
+  );
+  metric(
+    "chat_error_ratio",
+    "gauge",
+    "Share of the recent finished requests that failed.",
+    [["", summary.errorRate]],
+  );
+  metric(
+    "chat_metrics_start_time_seconds",
+    "gauge",
+    "When the counters started.",
+    [["", Math.floor(report.since / 1000)]],
+  );
+  return lines.join("\n") + "\n";
+}
+
+const hash = (text: string) => createHash("sha256").update(text).digest();
+
+/** Whether a request may read the metrics (always, without METRICS_TOKEN). */
+export function metricsAuthorized(headers: Headers): boolean {
+  const token = process.env.METRICS_TOKEN;
+  if (!token) return true;
+  const given = headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  // Hashing first gives equal lengths for the constant-time compare
+  return Boolean(given) && timingSafeEqual(hash(given!), hash(token));
+}
@@ -0,0 +1,30 @@
+import { BackendSelection, backendHeaders } from "@/lib/backends";
+
+export interface ModelInfo {
+  id: string;
+  ownedBy: string | null;
+}
+
+/** Ask GET /api/models what the backend is serving. Throws with the route's error message. */
+export async function fetchModels(
+  backend: BackendSelection,
+  signal?: AbortSignal,
+): Promise<ModelInfo[]> {
+  const response = await fetch("/api/models", {
+    headers: backendHeaders(backend),
+    signal,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Server error (${response.status})`);
+  }
+  return data.models || [];
+}
+
+/** llama.cpp reports the GGUF path as the id — show just the file name. */
+export function displayModelName(id: string): string {
+  return id
+    .split("/")
+    .pop()!
+    .replace(/\.gguf$/i, "");
+}
@@ -0,0 +1,201 @@
+import {
+  DEFAULT_SYSTEM_PROMPT,
+  MAX_SYSTEM_PROMPT_LENGTH,
+} from "@/lib/chatParams";
+
+/**
+ * Named system prompts, each with its own welcome-screen suggestions.
+ * Built-ins ship with the app and are read-only (duplicate one to change
+ * it); custom presets live in localStorage and move between browsers as
+ * JSON. Picking a preset copies its prompt into the conversation settings.
+ */
+
+export interface Preset {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  suggestions: string[];
+  builtIn?: boolean;
+}
+
+export const DEFAULT_PRESET_ID = "assistant";
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    id: DEFAULT_PRESET_ID,
+    name: "Assistant",
+    systemPrompt: DEFAULT_SYSTEM_PROMPT,
+    suggestions: [
+      "Write a Python hello world",
+      "Explain async/await",
+      "Debug a segfault in C",
+      "Create a REST API in Node.js",
+    ],
+    builtIn: true,
+  },
+  {
+    id: "code-reviewer",
+    name: "Code reviewer",
+    systemPrompt:
+      "You are a senior engineer reviewing code. Point out bugs, security problems, race conditions and unclear naming, most serious first. Quote the lines you mean and suggest a concrete fix for each. Say so plainly when the code is fine; don't invent issues.",
+    suggestions: [
+      "Review this function for bugs",
+      "Is this SQL query safe from injection?",
+      "How can I make this code more readable?",
+      "Spot the race condition",
+    ],
+    builtIn: true,
+  },
+  {
+    id: "sql-expert",
+    name: "SQL expert",
+    systemPrompt:
+      "You are a database expert fluent in PostgreSQL, MySQL and SQLite. Write correct, readable SQL, mention which dialect a feature needs, and explain the indexes and query plans that matter for performance.",
+    suggestions: [
+      "Find duplicate rows in a table",
+      "Explain this EXPLAIN ANALYZE output",
+      "Design a schema for a blog",
+      "Window functions: running totals",
+    ],
+    builtIn: true,
+  },
+  {
+    id: "explain-new",
+    name: "Explain like I'm new",
+    systemPrompt:
+      "You are a patient teacher for people who are new to programming. Explain ideas step by step in plain words, define every term the first time you use it, and keep examples short and runnable. Check understanding with a small exercise at the end.",
+    suggestions: [
+      "What is a variable?",
+      "How does a for loop work?",
+      "What is an API?",
+      "Why do we use Git?",
+    ],
+    builtIn: true,
+  },
+  {
+    id: "terse",
+    name: "Terse — code only",
+    systemPrompt:
+      "Answer with code only: one complete code block, no explanation before or after it. Use comments inside the code for anything that must be said.",
+    suggestions: [
+      "Debounce function in TypeScript",
+      "Bash: rename all .jpeg to .jpg",
+      "Python: read a CSV into dicts",
+      "Go: HTTP server with graceful shutdown",
+    ],
+    builtIn: true,
+  },
+];
+
+const PRESETS_KEY = "kaggle-presets";
+const FILE_FORMAT = "qwen-chat-presets";
+const FILE_VERSION = 1;
+export const MAX_SUGGESTIONS = 6;
+const MAX_NAME_LENGTH = 60;
+
+export function newPresetId(): string {
+  return (
+    "p-" + Date.now().toString(36) + Math.random().toString(36).slice(2, 6)
+  );
+}
+
+/** Problems with a preset, or null when it can be saved. */
+export function presetError(preset: Preset): string | null {
+  if (!preset.name.trim()) return "Give the preset a name";
+  if (preset.name.length > MAX_NAME_LENGTH) {
+    return `Names are limited to ${MAX_NAME_LENGTH} characters`;
+  }
+  if (!preset.systemPrompt.trim()) return "The system prompt is empty";
+  if (preset.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    return `System prompts are limited to ${MAX_SYSTEM_PROMPT_LENGTH} characters`;
+  }
+  if (preset.suggestions.length > MAX_SUGGESTIONS) {
+    return `At most ${MAX_SUGGESTIONS} suggestions`;
+  }
+  return null;
+}
+
+// Anything that isn't a valid preset is dropped; ids are always fresh
+function toPreset(raw: unknown): Preset | null {
+  const p = raw as Partial<Preset> | null;
+  if (typeof p?.name !== "string" || typeof p.systemPrompt !== "string") {
+    return null;
+  }
+  const preset: Preset = {
+    id: newPresetId(),
+    name: p.name.trim(),
+    systemPrompt: p.systemPrompt,
+    suggestions: Array.isArray(p.suggestions)
+      ? p.suggestions
+          .filter((s): s is string => typeof s === "string" && !!s.trim())
+          .slice(0, MAX_SUGGESTIONS)
+      : [],
+  };
+  return presetError(preset) ? null : preset;
+}
+
+export function loadCustomPresets(): Preset[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PRESETS_KEY) || "[]");
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((raw) => {
+        const preset = toPreset(raw);
+        return preset && { ...preset, id: String(raw.id) };
+      })
+      .filter((p): p is Preset => p !== null);
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomPresets(presets: Preset[]) {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+}
+
+export function findPreset(
+  presets: Preset[],
+  id: string | undefined,
+): Preset | undefined {
+  return presets.find((p) => p.id === id);
+}
+
+/** Presets as a JSON file; ids and the built-in flag are left out. */
+export function exportPresets(presets: Preset[]): string {
+  return JSON.stringify(
+    {
+      format: FILE_FORMAT,
+      version: FILE_VERSION,
+      presets: presets.map(({ name, systemPrompt, suggestions }) => ({
+        name,
+        systemPrompt,
+        suggestions,
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+/** Read an exported file, a bare array of presets, or a single preset. */
+export function parsePresets(text: string): Preset[] {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (data?.format === FILE_FORMAT && data.version > FILE_VERSION) {
+    throw new Error("This file was made by a newer version of the app");
+  }
+  const list = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.presets)
+      ? data.presets
+      : [data];
+  const presets = list
+    .map(toPreset)
+    .filter((p: Preset | null): p is Preset => p !== null);
+  if (presets.length === 0) throw new Error("No valid presets in the file");
+  return presets;
+}
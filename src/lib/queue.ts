@@ -0,0 +1,52 @@
+import { Attachment } from "@/lib/attachments";
+
+/**
+ * Prompts sent while a reply is streaming wait here, outside the history,
+ * until their turn. Sequential mode answers them one by one; batch mode
+ * merges everything waiting into a single turn.
+ */
+
+export type QueueMode = "sequential" | "batch";
+
+export interface QueuedPrompt {
+  text: string;
+  attachments?: Attachment[];
+}
+
+/** A pending model request. */
+export interface QueuedRequest {
+  id: string;
+  /**
+   * Added to the history when its turn comes. Without one the model
+   * answers the history as it stands (regenerate, continue).
+   */
+  prompt?: QueuedPrompt;
+  /** Extend the last reply (cut off at max_tokens) instead of adding one. */
+  continuation?: boolean;
+}
+
+const MODE_KEY = "kaggle-queue-mode";
+
+export function newRequestId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+/** Several waiting prompts as one turn, in the order they were sent. */
+export function mergePrompts(prompts: QueuedPrompt[]): QueuedPrompt {
+  const attachments = prompts.flatMap((p) => p.attachments ?? []);
+  return {
+    text: prompts
+      .map((p) => p.text.trim())
+      .filter(Boolean)
+      .join("\n\n"),
+    ...(attachments.length > 0 && { attachments }),
+  };
+}
+
+export function loadQueueMode(): QueueMode {
+  return localStorage.getItem(MODE_KEY) === "batch" ? "batch" : "sequential";
+}
+
+export function saveQueueMode(mode: QueueMode) {
+  localStorage.setItem(MODE_KEY, mode);
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { clientKey } from "@/lib/rateLimit";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// The client sent "6.6.6.6" itself; each proxy appended the address it saw
+const SPOOFED = { "x-forwarded-for": "6.6.6.6, 1.2.3.4, 10.0.0.1" };
+
+describe("clientKey", () => {
+  it("trusts the hop one proxy added by default", () => {
+    expect(clientKey(new Headers(SPOOFED))).toBe("ip:10.0.0.1");
+    expect(clientKey(new Headers({ "x-forwarded-for": "1.2.3.4" }))).toBe(
+      "ip:1.2.3.4",
+    );
+  });
+
+  it("skips the hops inner proxies added", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "2");
+    expect(clientKey(new Headers(SPOOFED))).toBe("ip:1.2.3.4");
+  });
+
+  it("takes the first hop when there are fewer than proxies", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "2");
+    expect(clientKey(new Headers({ "x-forwarded-for": "1.2.3.4" }))).toBe(
+      "ip:1.2.3.4",
+    );
+  });
+
+  it("ignores forwarding headers with no proxy in front", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "0");
+    expect(clientKey(new Headers(SPOOFED))).toBe("ip:unknown");
+    expect(clientKey(new Headers({ "x-real-ip": "9.9.9.9" }))).toBe(
+      "ip:unknown",
+    );
+  });
+
+  it("never takes X-Real-IP from the client", () => {
+    expect(clientKey(new Headers({ "x-real-ip": "9.9.9.9" }))).toBe(
+      "ip:unknown",
+    );
+  });
+
+  it("falls back to one proxy for a count that isn't a whole number", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "two");
+    expect(clientKey(new Headers(SPOOFED))).toBe("ip:10.0.0.1");
+  });
+
+  it("charges a known access token instead of the IP", () => {
+    vi.stubEnv("ACCESS_TOKENS", "alpha, beta");
+    expect(
+      clientKey(new Headers({ ...SPOOFED, "x-access-token": "beta" })),
+    ).toBe("token:beta");
+    expect(
+      clientKey(new Headers({ ...SPOOFED, "x-access-token": "gamma" })),
+    ).toBe("ip:10.0.0.1");
+  });
+});
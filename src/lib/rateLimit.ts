@@ -0,0 +1,164 @@
+/**
+ * Rate limiting for /api/chat: a token bucket per client, plus a cap on how
+ * many responses may stream from one backend at once (a single T4 can only
+ * serve so many).
+ *
+ * State lives behind `RateLimitStore` so a shared store (Redis, KV) can
+ * replace the in-memory default when running more than one instance.
+ *
+ * Tuning (env):
+ *   RATE_LIMIT_BURST           requests a client may make back-to-back (10)
+ *   RATE_LIMIT_PER_MINUTE      sustained requests per client per minute (6)
+ *   MAX_CONCURRENT_STREAMS     streams per backend at the same time (2)
+ *   ACCESS_TOKENS              comma-separated tokens; a request carrying one
+ *                              in `x-access-token` gets its own bucket
+ *                              instead of sharing its IP's
+ *   TRUSTED_PROXY_COUNT        proxies in front of the app that append to
+ *                              X-Forwarded-For (1). The client IP is the
+ *                              entry the outermost of them added; anything
+ *                              before it came from the client and could be
+ *                              made up. 0 (the app faces clients directly)
+ *                              ignores the header, so every client without
+ *                              an access token shares one bucket.
+ */
+
+export interface BucketConfig {
+  capacity: number;
+  refillPerMs: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  /** How long until a token is available; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  /** Take one token from `key`'s bucket if there is one. */
+  take(key: string, config: BucketConfig): Promise<TakeResult>;
+  /** Claim one of `limit` concurrent slots for `key`. */
+  acquireSlot(key: string, limit: number): Promise<boolean>;
+  releaseSlot(key: string): Promise<void>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const MAX_TRACKED_BUCKETS = 10000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+  private slots = new Map<string, number>();
+
+  async take(key: string, config: BucketConfig): Promise<TakeResult> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) || {
+      tokens: config.capacity,
+      updatedAt: now,
+    };
+    bucket.tokens = Math.min(
+      config.capacity,
+      bucket.tokens + (now - bucket.updatedAt) * config.refillPerMs,
+    );
+    bucket.updatedAt = now;
+
+    if (this.buckets.size >= MAX_TRACKED_BUCKETS) this.prune(config, now);
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    return {
+      allowed: false,
+      retryAfterMs: Math.ceil((1 - bucket.tokens) / config.refillPerMs),
+    };
+  }
+
+  async acquireSlot(key: string, limit: number): Promise<boolean> {
+    const used = this.slots.get(key) || 0;
+    if (used >= limit) return false;
+    this.slots.set(key, used + 1);
+    return true;
+  }
+
+  async releaseSlot(key: string): Promise<void> {
+    const used = this.slots.get(key) || 0;
+    if (used <= 1) this.slots.delete(key);
+    else this.slots.set(key, used - 1);
+  }
+
+  // Buckets that would have refilled completely carry no information
+  private prune(config: BucketConfig, now: number) {
+    for (const [key, bucket] of this.buckets) {
+      const refilled =
+        bucket.tokens + (now - bucket.updatedAt) * config.refillPerMs;
+      if (refilled >= config.capacity) this.buckets.delete(key);
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function bucketConfig(): BucketConfig {
+  return {
+    capacity: envNumber("RATE_LIMIT_BURST", 10),
+    refillPerMs: envNumber("RATE_LIMIT_PER_MINUTE", 6) / 60000,
+  };
+}
+
+export function maxConcurrentStreams(): number {
+  return envNumber("MAX_CONCURRENT_STREAMS", 2);
+}
+
+function trustedProxyCount(): number {
+  const value = Number(process.env.TRUSTED_PROXY_COUNT || 1);
+  return Number.isInteger(value) && value >= 0 ? value : 1;
+}
+
+/** Who to charge for a request: a known access token, else the client IP. */
+export function clientKey(headers: Headers): string {
+  const token = headers.get("x-access-token");
+  const known = (process.env.ACCESS_TOKENS || "")
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  if (token && known.includes(token)) return `token:${token}`;
+
+  const proxies = trustedProxyCount();
+  if (proxies === 0) return "ip:unknown";
+  const hops = (headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  // Fewer hops than proxies: the header started at one of ours. X-Real-IP
+  // isn't consulted; without a proxy that sets it, the client can
+  const forwarded = hops[Math.max(0, hops.length - proxies)];
+  return `ip:${forwarded || "unknown"}`;
+}
+
+export function rateLimitResponse(error: string, retryAfterMs: number) {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  return new Response(JSON.stringify({ error, retryAfter }), {
+    status: 429,
+    headers: {
+      "Content-Type": "application/json",
+      "Retry-After": String(retryAfter),
+    },
+  });
+}
@@ -0,0 +1,163 @@
+import { fenceBlock, languageFor } from "@/lib/attachments";
+
+/**
+ * Lexical retrieval over project files: files are cut into overlapping line
+ * windows and ranked with BM25. Identifiers are split on camelCase and
+ * snake_case as well as kept whole, so "parseConfig" finds "parse config".
+ */
+
+/** A slice of a file; lines are 1-based and inclusive. */
+export interface Chunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+export interface IndexedChunk extends Chunk {
+  /** Term frequencies. */
+  terms: Record<string, number>;
+  length: number;
+}
+
+export interface SearchIndex {
+  chunks: IndexedChunk[];
+  /** How many chunks each term appears in. */
+  docFreq: Record<string, number>;
+  avgLength: number;
+}
+
+export interface ScoredChunk extends Chunk {
+  score: number;
+}
+
+const CHUNK_LINES = 40;
+const CHUNK_OVERLAP = 10;
+// BM25 tuning: term-frequency saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set(
+  "a an and are as at be by do does for from how i if in is it of on or that the this to was what when where which who why with you".split(
+    " ",
+  ),
+);
+
+// Terms like "constructor" must not hit Object.prototype
+function countOf(counts: Record<string, number>, term: string): number {
+  return Object.hasOwn(counts, term) ? counts[term] : 0;
+}
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z_][A-Za-z0-9_]*|\d+/g) || []) {
+    const lower = word.toLowerCase();
+    if (!STOP_WORDS.has(lower)) tokens.push(lower);
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .split(/[\s_]+/)
+      .filter(Boolean);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const p = part.toLowerCase();
+        if (p.length > 1 && !STOP_WORDS.has(p)) tokens.push(p);
+      }
+    }
+  }
+  return tokens;
+}
+
+/** Cut a file into overlapping windows of lines, skipping blank ones. */
+export function chunkFile(path: string, text: string): Chunk[] {
+  const lines = text.replace(/\n$/, "").split("\n");
+  const chunks: Chunk[] = [];
+  const step = CHUNK_LINES - CHUNK_OVERLAP;
+  for (let start = 0; start < lines.length; start += step) {
+    const slice = lines.slice(start, start + CHUNK_LINES);
+    if (slice.some((line) => line.trim())) {
+      chunks.push({
+        path,
+        startLine: start + 1,
+        endLine: start + slice.length,
+        text: slice.join("\n"),
+      });
+    }
+    if (start + CHUNK_LINES >= lines.length) break;
+  }
+  return chunks;
+}
+
+export function buildIndex(chunks: Chunk[]): SearchIndex {
+  const docFreq: Record<string, number> = Object.create(null);
+  let totalLength = 0;
+  const indexed = chunks.map((chunk) => {
+    // The path counts too: "where is the router" should find router.ts
+    const tokens = tokenize(`${chunk.path}\n${chunk.text}`);
+    const terms: Record<string, number> = Object.create(null);
+    for (const token of tokens) terms[token] = countOf(terms, token) + 1;
+    for (const term of Object.keys(terms)) {
+      docFreq[term] = countOf(docFreq, term) + 1;
+    }
+    totalLength += tokens.length;
+    return { ...chunk, terms, length: tokens.length };
+  });
+  return {
+    chunks: indexed,
+    docFreq,
+    avgLength: indexed.length ? totalLength / indexed.length : 0,
+  };
+}
+
+/** The `limit` best chunks for `query`, best first. */
+export function search(
+  index: SearchIndex,
+  query: string,
+  limit: number,
+): ScoredChunk[] {
+  const terms = [...new Set(tokenize(query))];
+  const n = index.chunks.length;
+  if (terms.length === 0 || n === 0) return [];
+
+  const idf = terms.map((t) => {
+    const df = countOf(index.docFreq, t);
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  });
+
+  const scored: ScoredChunk[] = [];
+  for (const chunk of index.chunks) {
+    let score = 0;
+    terms.forEach((term, i) => {
+      const tf = countOf(chunk.terms, term);
+      if (!tf) return;
+      const norm = 1 - B + (B * chunk.length) / (index.avgLength || 1);
+      score += (idf[i] * tf * (K1 + 1)) / (tf + K1 * norm);
+    });
+    if (score > 0) {
+      const { path, startLine, endLine, text } = chunk;
+      scored.push({ path, startLine, endLine, text, score });
+    }
+  }
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/** "src/app.ts:10-49" — how excerpts are cited. */
+export function citation(chunk: Chunk): string {
+  return `${chunk.path}:${chunk.startLine}-${chunk.endLine}`;
+}
+
+/**
+ * The most the excerpt section may add to the system prompt. The browser
+ * keeps this much of the context free whenever a knowledge base is on.
+ */
+export const MAX_KNOWLEDGE_PROMPT_CHARS = 8000;
+
+/** The system-prompt section that hands the excerpts to the model. */
+export function knowledgePrompt(chunks: Chunk[]): string {
+  return [
+    "Excerpts from the user's project files that may help with the question. Use them when they are relevant and cite them as [path:start-end]; say so when they don't contain the answer.",
+    ...chunks.map(
+      (c) => `[${citation(c)}]\n${fenceBlock(c.text, languageFor(c.path))}`,
+    ),
+  ].join("\n\n");
+}
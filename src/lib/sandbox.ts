@@ -0,0 +1,258 @@
+import { fenceBlock } from "@/lib/attachments";
+
+/**
+ * Runs JavaScript/TypeScript code blocks from replies in the browser, away
+ * from the app. The code runs in a Worker started inside a sandboxed,
+ * opaque-origin iframe whose CSP blocks all network access, so it can't
+ * reach the page, its storage or the chat API. Infinite loops only tie up
+ * the worker; the time limit tears the iframe (and worker) down.
+ */
+
+export interface OutputLine {
+  stream: "stdout" | "stderr";
+  text: string;
+}
+
+export interface RunResult {
+  output: OutputLine[];
+  /** Uncaught exception or syntax error. */
+  error?: string;
+  timedOut: boolean;
+  /** Output beyond MAX_OUTPUT_CHARS was dropped. */
+  truncated: boolean;
+  durationMs: number;
+}
+
+export const RUN_TIMEOUT_MS = 5000;
+const MAX_OUTPUT_CHARS = 20000;
+
+const LANGUAGES: Record<string, "js" | "ts"> = {
+  javascript: "js",
+  js: "js",
+  mjs: "js",
+  typescript: "ts",
+  ts: "ts",
+};
+
+export function isRunnable(language: string | null): boolean {
+  return Boolean(language && LANGUAGES[language.toLowerCase()]);
+}
+
+// Prepended to the snippet. Forwards console output, and reports "done"
+// once the snippet's top level has settled and no timers are pending.
+const WORKER_PRELUDE = `(() => {
+  const post = (m) => self.postMessage(m);
+  const show = (v) => {
+    if (typeof v === "string") return v;
+    if (v instanceof Error) return v.stack || String(v);
+    if (typeof v === "function" || typeof v === "symbol") return String(v);
+    try {
+      const json = JSON.stringify(v, null, 2);
+      return json === undefined ? String(v) : json;
+    } catch {
+      return String(v);
+    }
+  };
+  const write = (stream) => (...args) =>
+    post({ type: "output", stream, text: args.map(show).join(" ") });
+  for (const name of ["log", "info", "debug", "trace"]) console[name] = write("stdout");
+  for (const name of ["warn", "error"]) console[name] = write("stderr");
+
+  let settled = false;
+  let finished = false;
+  const timers = new Set();
+  const finish = () => {
+    if (finished || !settled || timers.size > 0) return;
+    finished = true;
+    post({ type: "done" });
+  };
+  const fail = (err) => {
+    post({ type: "error", message: err instanceof Error ? err.name + ": " + err.message : show(err) });
+    timers.clear();
+    settled = true;
+    finish();
+  };
+  const wrap = (fn, args) => () => {
+    try {
+      if (typeof fn === "function") fn(...args);
+    } catch (err) {
+      fail(err);
+    }
+    finish();
+  };
+  const { setTimeout: rawTimeout, setInterval: rawInterval } = self;
+  const { clearTimeout: rawClearTimeout, clearInterval: rawClearInterval } = self;
+  self.setTimeout = (fn, ms, ...args) => {
+    const id = rawTimeout(() => {
+      timers.delete(id);
+      wrap(fn, args)();
+    }, ms);
+    timers.add(id);
+    return id;
+  };
+  self.setInterval = (fn, ms, ...args) => {
+    const id = rawInterval(wrap(fn, args), ms);
+    timers.add(id);
+    return id;
+  };
+  self.clearTimeout = (id) => {
+    timers.delete(id);
+    rawClearTimeout(id);
+    finish();
+  };
+  self.clearInterval = (id) => {
+    timers.delete(id);
+    rawClearInterval(id);
+    finish();
+  };
+  self.addEventListener("unhandledrejection", (e) => fail(e.reason));
+  self.__settle = (err) => {
+    if (err !== undefined) return fail(err);
+    settled = true;
+    finish();
+  };
+})();
+var exports = {}, module = { exports };
+function require(name) {
+  throw new Error("Cannot import " + name + ": modules aren't available in the sandbox");
+}
+`;
+
+// The iframe only relays: it starts the worker and forwards its messages
+const RUNNER_HTML = `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline' blob:; worker-src blob:">
+<script>
+onmessage = (e) => {
+  const url = URL.createObjectURL(new Blob([e.data], { type: "text/javascript" }));
+  const worker = new Worker(url);
+  worker.onmessage = (m) => parent.postMessage(m.data, "*");
+  worker.onerror = (err) => {
+    err.preventDefault();
+    parent.postMessage({ type: "error", message: err.message || "Script error" }, "*");
+    parent.postMessage({ type: "done" }, "*");
+  };
+};
+</script>`;
+
+/**
+ * Strip TypeScript types and turn `import`s into calls to the prelude's
+ * `require`, which says modules aren't available; left as they are they'd
+ * be a bare syntax error inside the wrapper function. Sucrase is only
+ * downloaded when a block is run.
+ */
+async function toJavaScript(code: string, language: string): Promise<string> {
+  const { transform } = await import("sucrase");
+  return transform(code, {
+    transforms:
+      LANGUAGES[language.toLowerCase()] === "ts"
+        ? ["typescript", "imports"]
+        : ["imports"],
+  }).code;
+}
+
+/** Run a code block and collect what it printed. Never rejects. */
+export async function runCode(
+  code: string,
+  language: string,
+  timeoutMs = RUN_TIMEOUT_MS,
+): Promise<RunResult> {
+  let source: string;
+  try {
+    const js = await toJavaScript(code, language);
+    // Top-level await works because the snippet runs in an async function
+    source = `${WORKER_PRELUDE}(async () => {\n${js}\n})().then(() => self.__settle(), (err) => self.__settle(err));\n`;
+  } catch (err) {
+    return {
+      output: [],
+      error: `Couldn't compile: ${err instanceof Error ? err.message : err}`,
+      timedOut: false,
+      truncated: false,
+      durationMs: 0,
+    };
+  }
+
+  const iframe = document.createElement("iframe");
+  iframe.sandbox.add("allow-scripts");
+  iframe.srcdoc = RUNNER_HTML;
+  iframe.style.display = "none";
+
+  return new Promise((resolve) => {
+    const output: OutputLine[] = [];
+    let error: string | undefined;
+    let size = 0;
+    let truncated = false;
+    const started = performance.now();
+
+    const settle = (timedOut: boolean) => {
+      clearTimeout(timer);
+      window.removeEventListener("message", onMessage);
+      iframe.remove();
+      resolve({
+        output,
+        error,
+        timedOut,
+        truncated,
+        durationMs: Math.round(performance.now() - started),
+      });
+    };
+
+    const onMessage = (e: MessageEvent) => {
+      if (e.source !== iframe.contentWindow) return;
+      const message = e.data;
+      if (message?.type === "output") {
+        const text = String(message.text);
+        if (size + text.length > MAX_OUTPUT_CHARS) {
+          truncated = true;
+          return;
+        }
+        size += text.length;
+        output.push({
+          stream: message.stream === "stderr" ? "stderr" : "stdout",
+          text,
+        });
+      } else if (message?.type === "error") {
+        error ??= String(message.message);
+      } else if (message?.type === "done") {
+        settle(false);
+      }
+    };
+
+    const timer = setTimeout(() => settle(true), timeoutMs);
+    window.addEventListener("message", onMessage);
+    iframe.addEventListener("load", () =>
+      iframe.contentWindow?.postMessage(source, "*"),
+    );
+    document.body.appendChild(iframe);
+  });
+}
+
+/** Everything a run printed, as plain text. */
+export function formatOutput(result: RunResult): string {
+  const lines = result.output.map((l) => l.text);
+  if (result.truncated) lines.push("…(output truncated)");
+  if (result.error) lines.push(result.error);
+  if (result.timedOut) {
+    lines.push(`Timed out after ${RUN_TIMEOUT_MS / 1000} s`);
+  }
+  return lines.join("\n");
+}
+
+/** A follow-up message telling the model what happened when its code ran. */
+export function runReport(
+  code: string,
+  language: string,
+  result: RunResult,
+): string {
+  const failed =
+    Boolean(result.error) ||
+    result.timedOut ||
+    result.output.some((l) => l.stream === "stderr");
+  const output = formatOutput(result);
+  return [
+    "I ran this code:",
+    fenceBlock(code, language),
+    output
+      ? `${failed ? "It failed with" : "It printed"}:\n${fenceBlock(output)}`
+      : "It ran without printing anything.",
+  ].join("\n\n");
+}
@@ -0,0 +1,171 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { Attachment, parseAttachment } from "@/lib/attachments";
+import { MessageMeta } from "@/lib/conversations";
+
+/**
+ * Server-side storage for shared conversation snapshots. Like the rate
+ * limiter, the store sits behind an interface so a KV or database store can
+ * replace the file-system default (Vercel's disk is ephemeral).
+ *
+ * Config (env):
+ *   SHARE_DIR   where the file store keeps snapshots (./.shares)
+ */
+
+/** What a share page shows — deliberately nothing about the backend. */
+export interface SharedMessage {
+  role: "user" | "assistant";
+  content: string;
+  attachments?: Attachment[];
+  meta?: Pick<MessageMeta, "model" | "finishReason" | "usage">;
+}
+
+export interface SharedConversation {
+  id: string;
+  title: string;
+  model: string;
+  messages: SharedMessage[];
+  createdAt: number;
+  /** null for links that never expire. */
+  expiresAt: number | null;
+}
+
+/** A stored share; the delete token is only ever kept hashed. */
+export interface ShareRecord extends SharedConversation {
+  deleteTokenHash: string;
+}
+
+export interface ShareStore {
+  put(record: ShareRecord): Promise<void>;
+  get(id: string): Promise<ShareRecord | null>;
+  delete(id: string): Promise<void>;
+}
+
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+export function isShareId(id: string): boolean {
+  return SHARE_ID_PATTERN.test(id);
+}
+
+export function newShareId(): string {
+  return randomBytes(12).toString("base64url");
+}
+
+export function newDeleteToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function tokenMatches(
+  token: string,
+  record: { deleteTokenHash: string },
+): boolean {
+  const given = Buffer.from(hashToken(token), "hex");
+  const expected = Buffer.from(record.deleteTokenHash, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export function isExpired(share: SharedConversation, now = Date.now()) {
+  return share.expiresAt !== null && share.expiresAt <= now;
+}
+
+export class FileShareStore implements ShareStore {
+  constructor(private dir: string) {}
+
+  // Ids are checked against SHARE_ID_PATTERN, so they can't leave `dir`
+  private file(id: string) {
+    if (!isShareId(id)) throw new Error("Invalid share id");
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async put(record: ShareRecord): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.file(record.id), JSON.stringify(record), "utf8");
+  }
+
+  async get(id: string): Promise<ShareRecord | null> {
+    if (!isShareId(id)) return null;
+    let record: ShareRecord;
+    try {
+      record = JSON.parse(await readFile(this.file(id), "utf8"));
+    } catch {
+      return null;
+    }
+    if (isExpired(record)) {
+      await this.delete(id);
+      return null;
+    }
+    return record;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!isShareId(id)) return;
+    await rm(this.file(id), { force: true });
+  }
+}
+
+let store: ShareStore = new FileShareStore(
+  path.resolve(process.env.SHARE_DIR || ".shares"),
+);
+
+export function getShareStore(): ShareStore {
+  return store;
+}
+
+export function setShareStore(next: ShareStore) {
+  store = next;
+}
+
+const MAX_SHARED_MESSAGES = 500;
+
+/**
+ * Copy only the fields a share page needs out of client-supplied messages.
+ * Building the snapshot from an allow-list (rather than stripping known
+ * secrets) is what keeps backend URLs, labels and keys out of it.
+ */
+export function snapshotMessages(raw: unknown): SharedMessage[] | null {
+  if (!Array.isArray(raw) || raw.length > MAX_SHARED_MESSAGES) return null;
+  const messages: SharedMessage[] = [];
+  for (const m of raw) {
+    if (
+      (m?.role !== "user" && m?.role !== "assistant") ||
+      typeof m.content !== "string"
+    ) {
+      return null;
+    }
+    const message: SharedMessage = { role: m.role, content: m.content };
+    if (Array.isArray(m.attachments)) {
+      const attachments = m.attachments
+        .map(parseAttachment)
+        .filter((a: Attachment | null): a is Attachment => a !== null);
+      if (attachments.length > 0) message.attachments = attachments;
+    }
+    if (m.meta && typeof m.meta === "object") {
+      const { model, finishReason, usage } = m.meta;
+      const meta = {
+        ...(typeof model === "string" && { model }),
+        ...(typeof finishReason === "string" && { finishReason }),
+        ...(typeof usage?.completionTokens === "number" && {
+          usage: {
+            promptTokens: Number(usage.promptTokens) || 0,
+            completionTokens: usage.completionTokens,
+            totalTokens: Number(usage.totalTokens) || 0,
+          },
+        }),
+      };
+      if (Object.keys(meta).length > 0) message.meta = meta;
+    }
+    messages.push(message);
+  }
+  return messages;
+}
+
+/** The public part of a record. */
+export function publicShare(record: ShareRecord): SharedConversation {
+  const { id, title, model, messages, createdAt, expiresAt } = record;
+  return { id, title, model, messages, createdAt, expiresAt };
+}
@@ -0,0 +1,84 @@
+import { Conversation } from "@/lib/conversations";
+
+/**
+ * Client side of read-only share links. The browser remembers the delete
+ * token of every link it created so the link can be revoked later; the
+ * server only keeps a hash of it.
+ */
+
+export interface ShareLink {
+  id: string;
+  conversationId: string;
+  url: string;
+  deleteToken: string;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+/** Expiry choices, in seconds; 0 means the link never expires. */
+export const SHARE_EXPIRY_OPTIONS = [
+  { seconds: 0, label: "Never" },
+  { seconds: 60 * 60 * 24, label: "1 day" },
+  { seconds: 60 * 60 * 24 * 7, label: "7 days" },
+  { seconds: 60 * 60 * 24 * 30, label: "30 days" },
+] as const;
+
+const SHARES_KEY = "kaggle-shares";
+
+export function loadShareLinks(): ShareLink[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SHARES_KEY) || "[]");
+    if (!Array.isArray(parsed)) return [];
+    const now = Date.now();
+    return parsed.filter(
+      (s: ShareLink) => s.expiresAt === null || s.expiresAt > now,
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function saveShareLinks(links: ShareLink[]) {
+  localStorage.setItem(SHARES_KEY, JSON.stringify(links));
+}
+
+/** Post a snapshot of `conversation` and return the new link. */
+export async function createShareLink(
+  conversation: Conversation,
+  expiresIn: number,
+): Promise<ShareLink> {
+  const response = await fetch("/api/share", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      title: conversation.title,
+      model: conversation.settings.model,
+      messages: conversation.messages,
+      expiresIn,
+    }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Server error (${response.status})`);
+  }
+  return {
+    id: data.id,
+    conversationId: conversation.id,
+    url: new URL(`/share/${data.id}`, window.location.origin).toString(),
+    deleteToken: data.deleteToken,
+    createdAt: Date.now(),
+    expiresAt: data.expiresAt,
+  };
+}
+
+export async function deleteShareLink(link: ShareLink): Promise<void> {
+  const response = await fetch(`/api/share/${link.id}`, {
+    method: "DELETE",
+    headers: { "x-delete-token": link.deleteToken },
+  });
+  // Already gone (expired or deleted elsewhere) is as good as deleted
+  if (!response.ok && response.status !== 404) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Server error (${response.status})`);
+  }
+}
@@ -0,0 +1,90 @@
+import { Attachment, inlineAttachment } from "@/lib/attachments";
+import { Message } from "@/lib/conversations";
+import { MAX_KNOWLEDGE_PROMPT_CHARS } from "@/lib/retrieval";
+
+/**
+ * Rough token accounting for chat history. We don't ship Qwen's tokenizer
+ * to the browser; ~3.5 characters per token is close enough for English
+ * and code to keep requests under the server's --n_ctx.
+ */
+
+const CHARS_PER_TOKEN = 3.5;
+// ChatML wraps every message in <|im_start|>role\n … <|im_end|>\n
+const MESSAGE_OVERHEAD = 4;
+// Vision encoders spend a few hundred tokens per image, whatever its size
+const IMAGE_TOKENS = 768;
+// The most knowledge-base excerpts can add to the system prompt ("\n\n" too)
+const KNOWLEDGE_TOKENS = Math.ceil(
+  (MAX_KNOWLEDGE_PROMPT_CHARS + 2) / CHARS_PER_TOKEN,
+);
+
+export const CONTEXT_SIZE_LIMITS = { min: 512, max: 131072 };
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function attachmentTokens(attachment: Attachment): number {
+  return attachment.kind === "image"
+    ? IMAGE_TOKENS
+    : estimateTokens(inlineAttachment(attachment));
+}
+
+export function messageTokens(message: {
+  content: string;
+  attachments?: Attachment[];
+}): number {
+  return (
+    estimateTokens(message.content) +
+    (message.attachments || []).reduce(
+      (sum, a) => sum + attachmentTokens(a),
+      0,
+    ) +
+    MESSAGE_OVERHEAD
+  );
+}
+
+export interface ContextPlan {
+  /** Index of the first message that still fits; earlier ones are dropped. */
+  sendFrom: number;
+  /** Estimated prompt tokens, system prompt included. */
+  promptTokens: number;
+  /** Tokens available to the prompt once the completion is reserved. */
+  budget: number;
+}
+
+/**
+ * Decide which messages to send: the system prompt always goes, then as
+ * many of the most recent messages as fit in `contextSize - maxTokens`.
+ * The newest message is always kept, even if it alone is over budget —
+ * the server's error is more useful than sending nothing. With `knowledge`
+ * on, room is kept for the excerpts the server adds to the system prompt.
+ */
+export function planContext(
+  messages: Pick<Message, "role" | "content" | "attachments">[],
+  systemPrompt: string,
+  contextSize: number,
+  maxTokens: number,
+  knowledge = false,
+): ContextPlan {
+  const budget = Math.max(0, contextSize - maxTokens);
+  let promptTokens =
+    messageTokens({ content: systemPrompt }) +
+    (knowledge ? KNOWLEDGE_TOKENS : 0);
+  let sendFrom = messages.length;
+
+  while (sendFrom > 0) {
+    const cost = messageTokens(messages[sendFrom - 1]);
+    if (sendFrom < messages.length && promptTokens + cost > budget) break;
+    promptTokens += cost;
+    sendFrom--;
+  }
+
+  // Never open the history with an orphaned assistant reply
+  while (sendFrom < messages.length - 1 && messages[sendFrom].role !== "user") {
+    promptTokens -= messageTokens(messages[sendFrom]);
+    sendFrom++;
+  }
+
+  return { sendFrom, promptTokens, budget };
+}
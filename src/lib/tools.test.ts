@@ -0,0 +1,189 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { runTool } from "@/lib/tools";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("calculator", () => {
+  it("answers with the result", async () => {
+    expect(await runTool("calculator", '{"expression":"(3 + 4) * 2"}')).toEqual(
+      { content: "14", error: false },
+    );
+  });
+
+  it("reports bad arguments to the model instead of throwing", async () => {
+    expect(await runTool("calculator", "{oops")).toEqual({
+      content: "Arguments are not valid JSON",
+      error: true,
+    });
+    expect(await runTool("calculator", '{"expression":1}')).toEqual({
+      content: "expression must be a string",
+      error: true,
+    });
+  });
+});
+
+describe("fetch_url", () => {
+  const fetchUrl = (url: string) =>
+    runTool("fetch_url", JSON.stringify({ url }));
+
+  function stubFetch(response: () => Response) {
+    const fetchMock = vi.fn<typeof fetch>(async () => response());
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  // A body that arrives in pieces, with no Content-Length to go by
+  function streamOf(bytes: number, chunk = 64 * 1024) {
+    let sent = 0;
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent >= bytes) return controller.close();
+        sent += chunk;
+        controller.enqueue(new Uint8Array(chunk).fill(97));
+      },
+    });
+  }
+
+  it("is off without an allow-list", async () => {
+    vi.stubEnv("TOOL_FETCH_HOSTS", "");
+    expect(await fetchUrl("https://example.com")).toEqual({
+      content: 'Unknown tool "fetch_url"',
+      error: true,
+    });
+  });
+
+  it.each([
+    ["https://evil.com/", "evil.com is not on the fetch allow-list"],
+    ["https://docs.example.com.evil.com/", "is not on the fetch allow-list"],
+    [
+      "https://example.org@evil.com/",
+      "evil.com is not on the fetch allow-list",
+    ],
+    ["file:///etc/passwd", "Only http(s) URLs can be fetched"],
+    ["not a url", "Not a valid URL"],
+  ])("refuses %s", async (url, message) => {
+    vi.stubEnv("TOOL_FETCH_HOSTS", "example.org,*.example.com");
+    const fetchMock = stubFetch(() => new Response("secret"));
+    const outcome = await fetchUrl(url);
+    expect(outcome.error).toBe(true);
+    expect(outcome.content).toContain(message);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("fetches allow-listed hosts without following redirects", async () => {
+    vi.stubEnv("TOOL_FETCH_HOSTS", "example.org,*.example.com");
+    const fetchMock = stubFetch(
+      () =>
+        new Response("<p>Hello <b>there</b></p><script>x()</script>", {
+          headers: { "Content-Type": "text/html" },
+        }),
+    );
+    expect(await fetchUrl("https://docs.example.com/a")).toEqual({
+      content: "HTTP 200\n\nHello there",
+      error: false,
+    });
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: "error" });
+  });
+
+  it("refuses a body declared too large", async () => {
+    vi.stubEnv("TOOL_FETCH_HOSTS", "example.org");
+    stubFetch(
+      () =>
+        new Response("small", {
+          headers: { "Content-Length": String(3 * 1024 * 1024) },
+        }),
+    );
+    expect(await fetchUrl("https://example.org/")).toEqual({
+      content: "Response is too large to read",
+      error: true,
+    });
+  });
+
+  it("stops reading a body that runs past the cap", async () => {
+    vi.stubEnv("TOOL_FETCH_HOSTS", "example.org");
+    const body = streamOf(50 * 1024 * 1024);
+    stubFetch(() => new Response(body));
+    expect(await fetchUrl("https://example.org/")).toEqual({
+      content: "Response is too large to read",
+      error: true,
+    });
+  });
+
+  it("reads a streamed body under the cap", async () => {
+    vi.stubEnv("TOOL_FETCH_HOSTS", "example.org");
+    stubFetch(() => new Response(streamOf(128 * 1024)));
+    const outcome = await fetchUrl("https://example.org/");
+    expect(outcome.error).toBe(false);
+    expect(outcome.content).toMatch(/^HTTP 200\n\na+/);
+  });
+});
+
+describe("read_workspace_file", () => {
+  let dir: string;
+  let workspace: string;
+  const read = (args: Record<string, unknown>) =>
+    runTool("read_workspace_file", JSON.stringify(args));
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "tools-test-"));
+    workspace = path.join(dir, "workspace");
+    await mkdir(path.join(workspace, "src"), { recursive: true });
+    await writeFile(path.join(workspace, "src/a.ts"), "one\ntwo\nthree\n");
+    await writeFile(path.join(dir, "secret.txt"), "secret");
+    // Shares the workspace's name as a prefix, but is outside it
+    await mkdir(path.join(dir, "workspace-evil"));
+    await writeFile(path.join(dir, "workspace-evil/b.txt"), "secret");
+    await symlink(
+      path.join(dir, "secret.txt"),
+      path.join(workspace, "link.txt"),
+    );
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads a range of lines with their numbers", async () => {
+    vi.stubEnv("TOOL_WORKSPACE_DIR", workspace);
+    expect(await read({ path: "src/a.ts", startLine: 2, endLine: 3 })).toEqual({
+      content: "2: two\n3: three",
+      error: false,
+    });
+  });
+
+  it.each([
+    ["../secret.txt", "Path is outside the workspace"],
+    ["../workspace-evil/b.txt", "Path is outside the workspace"],
+    ["link.txt", "Path is outside the workspace"],
+    [".", "Path is outside the workspace"],
+    ["missing.ts", "No such file: missing.ts"],
+  ])("refuses %s", async (relative, message) => {
+    vi.stubEnv("TOOL_WORKSPACE_DIR", workspace);
+    expect(await read({ path: relative })).toEqual({
+      content: message,
+      error: true,
+    });
+  });
+
+  it("refuses an absolute path outside the workspace", async () => {
+    vi.stubEnv("TOOL_WORKSPACE_DIR", workspace);
+    expect(await read({ path: path.join(dir, "secret.txt") })).toEqual({
+      content: "Path is outside the workspace",
+      error: true,
+    });
+  });
+});
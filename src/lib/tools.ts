@@ -0,0 +1,229 @@
+import { readFile, realpath } from "fs/promises";
+import path from "path";
+import { hostMatches } from "@/lib/backendProfiles";
+import { evaluate } from "@/lib/calculator";
+
+/**
+ * Server-side tools the model may call. Each tool declares an OpenAI
+ * function schema and runs on the server; the browser never executes
+ * anything. Register more with `registerTool`.
+ *
+ * Built-ins (env):
+ *   calculator           always on
+ *   fetch_url            TOOL_FETCH_HOSTS — comma-separated host allow-list
+ *                        ("*.example.com" matches subdomains)
+ *   read_workspace_file  TOOL_WORKSPACE_DIR — folder the model may read from
+ */
+
+export interface Tool {
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments object. */
+  parameters: Record<string, unknown>;
+  /** Whether the deployment has configured what the tool needs. */
+  enabled?: () => boolean;
+  run(args: Record<string, unknown>): Promise<string>;
+}
+
+export interface ToolOutcome {
+  content: string;
+  error: boolean;
+}
+
+/** Model rounds with tool calls per reply before it must answer. */
+export const MAX_TOOL_ROUNDS = 5;
+
+// Tool results go back into the prompt; keep them from eating the context
+const MAX_RESULT_CHARS = 8000;
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_SNIPPET_LINES = 400;
+const MAX_FETCH_BYTES = 2 * 1024 * 1024;
+
+const registry = new Map<string, Tool>();
+
+export function registerTool(tool: Tool) {
+  registry.set(tool.name, tool);
+}
+
+export function availableTools(): Tool[] {
+  return [...registry.values()].filter((t) => !t.enabled || t.enabled());
+}
+
+/** The `tools` array for an OpenAI chat request. */
+export function toolSchemas() {
+  return availableTools().map((t) => ({
+    type: "function" as const,
+    function: {
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters,
+    },
+  }));
+}
+
+/** Run a call from the model. Failures become results the model can read. */
+export async function runTool(
+  name: string,
+  rawArguments: string,
+): Promise<ToolOutcome> {
+  const tool = availableTools().find((t) => t.name === name);
+  if (!tool) return { content: `Unknown tool "${name}"`, error: true };
+
+  let args: Record<string, unknown>;
+  try {
+    args = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+  } catch {
+    return { content: "Arguments are not valid JSON", error: true };
+  }
+
+  try {
+    const content = await tool.run(args);
+    return {
+      content:
+        content.length > MAX_RESULT_CHARS
+          ? content.slice(0, MAX_RESULT_CHARS) + "\n…(truncated)"
+          : content,
+      error: false,
+    };
+  } catch (err) {
+    return {
+      content: err instanceof Error ? err.message : "Tool failed",
+      error: true,
+    };
+  }
+}
+
+function listEnv(name: string): string[] {
+  return (process.env[name] || "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+registerTool({
+  name: "calculator",
+  description:
+    "Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, min, max, exp, ln, log, log2, sin, cos, tan.",
+  parameters: {
+    type: "object",
+    properties: {
+      expression: { type: "string", description: "e.g. (3 + 4) * 2^10" },
+    },
+    required: ["expression"],
+  },
+  async run({ expression }) {
+    if (typeof expression !== "string") {
+      throw new Error("expression must be a string");
+    }
+    return String(evaluate(expression));
+  },
+});
+
+// Content-Length can be missing or wrong, so the body is counted as it arrives
+async function readLimited(response: Response): Promise<string> {
+  if (!response.body) return "";
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_FETCH_BYTES) {
+      reader.cancel().catch(() => {});
+      throw new Error("Response is too large to read");
+    }
+    chunks.push(value);
+  }
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+registerTool({
+  name: "fetch_url",
+  description:
+    "Fetch a web page or API response by URL and return its text. Only allow-listed hosts can be fetched.",
+  parameters: {
+    type: "object",
+    properties: {
+      url: { type: "string", description: "An http(s) URL" },
+    },
+    required: ["url"],
+  },
+  enabled: () => listEnv("TOOL_FETCH_HOSTS").length > 0,
+  async run({ url }) {
+    let target: URL;
+    try {
+      target = new URL(String(url));
+    } catch {
+      throw new Error("Not a valid URL");
+    }
+    if (target.protocol !== "https:" && target.protocol !== "http:") {
+      throw new Error("Only http(s) URLs can be fetched");
+    }
+    const hostname = target.hostname.toLowerCase();
+    if (!listEnv("TOOL_FETCH_HOSTS").some((p) => hostMatches(hostname, p))) {
+      throw new Error(`${hostname} is not on the fetch allow-list`);
+    }
+
+    const response = await fetch(target, {
+      // A redirect could lead off the allow-list
+      redirect: "error",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: { "User-Agent": "QwenChatBot/1.0" },
+    });
+    if (Number(response.headers.get("content-length")) > MAX_FETCH_BYTES) {
+      response.body?.cancel().catch(() => {});
+      throw new Error("Response is too large to read");
+    }
+    const text = await readLimited(response);
+    const type = response.headers.get("content-type") || "";
+    const body = type.includes("html")
+      ? text
+          .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+          .replace(/<[^>]+>/g, " ")
+          .replace(/\s+/g, " ")
+          .trim()
+      : text;
+    return `HTTP ${response.status}\n\n${body}`;
+  },
+});
+
+registerTool({
+  name: "read_workspace_file",
+  description:
+    "Read lines from a file in the project workspace. Returns the lines prefixed with their numbers.",
+  parameters: {
+    type: "object",
+    properties: {
+      path: { type: "string", description: "Path relative to the workspace" },
+      startLine: { type: "integer", description: "First line (1-based)" },
+      endLine: { type: "integer", description: "Last line (inclusive)" },
+    },
+    required: ["path"],
+  },
+  enabled: () => Boolean(process.env.TOOL_WORKSPACE_DIR),
+  async run({ path: relative, startLine, endLine }) {
+    const root = await realpath(process.env.TOOL_WORKSPACE_DIR!);
+    // realpath also resolves symlinks that point outside the workspace
+    const file = await realpath(path.resolve(root, String(relative))).catch(
+      () => {
+        throw new Error(`No such file: ${relative}`);
+      },
+    );
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error("Path is outside the workspace");
+    }
+
+    const lines = (await readFile(file, "utf8")).split("\n");
+    const start = Math.max(1, Number(startLine) || 1);
+    const end = Math.min(
+      lines.length,
+      Number(endLine) || lines.length,
+      start + MAX_SNIPPET_LINES - 1,
+    );
+    return lines
+      .slice(start - 1, end)
+      .map((line, i) => `${start + i}: ${line}`)
+      .join("\n");
+  },
+});
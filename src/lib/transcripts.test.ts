@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import {
+  Conversation,
+  DEFAULT_MODEL_SETTINGS,
+  createConversation,
+} from "@/lib/conversations";
+import { parseTranscript, toJson } from "@/lib/transcripts";
+
+function importJson(conversation: unknown): Conversation {
+  const [imported] = parseTranscript(
+    JSON.stringify({ conversation }),
+    "chat.json",
+  );
+  return imported;
+}
+
+describe("JSON import", () => {
+  it("round-trips everything an export holds", () => {
+    const conversation: Conversation = {
+      ...createConversation({
+        ...DEFAULT_MODEL_SETTINGS,
+        temperature: 0.2,
+        topP: 0.9,
+        stop: ["###"],
+        tools: true,
+      }),
+      title: "Round trip",
+      messages: [
+        {
+          id: "q1",
+          role: "user",
+          content: "What's 6*7?",
+          attachments: [
+            {
+              kind: "text",
+              name: "a.ts",
+              size: 3,
+              language: "typescript",
+              text: "x()",
+            },
+            {
+              kind: "image",
+              name: "a.png",
+              size: 4,
+              dataUrl: "data:image/png;base64,AAAA",
+            },
+          ],
+        },
+        {
+          role: "assistant",
+          content: "42",
+          toolSteps: [
+            {
+              id: "c1",
+              name: "calculator",
+              arguments: '{"expression":"6*7"}',
+              result: "42",
+            },
+          ],
+          meta: {
+            model: "m",
+            backend: "T4",
+            skipped: ["P100"],
+            finishReason: "stop",
+            usage: { promptTokens: 1, completionTokens: 2, totalTokens: 3 },
+            sources: [{ path: "a.ts", startLine: 1, endLine: 2, text: "x" }],
+          },
+          comparison: {
+            answers: [
+              { label: "A", model: "m", content: "42", ttftMs: 5 },
+              { label: "B", model: "n", content: "41", durationMs: 9 },
+            ],
+            preferred: 0,
+          },
+        },
+      ],
+      branches: {
+        q1: {
+          active: 1,
+          alternatives: [[{ role: "assistant", content: "forty-two" }], null],
+        },
+      },
+      compareTargets: [
+        { profileId: "", model: "", label: "This chat" },
+        { profileId: "t4", model: "m", label: "T4" },
+      ],
+    };
+
+    const [imported] = parseTranscript(toJson(conversation), "chat.json");
+    expect({ ...imported, id: conversation.id }).toEqual(conversation);
+  });
+
+  it("drops attachments, meta and comparisons that don't hold together", () => {
+    const imported = importJson({
+      messages: [
+        {
+          role: "user",
+          content: "hi",
+          attachments: [
+            {},
+            {
+              kind: "image",
+              name: "x",
+              size: 1,
+              dataUrl: "javascript:alert(1)",
+            },
+          ],
+          meta: { usage: 5, skipped: "x", sources: [{}] },
+        },
+        {
+          role: "assistant",
+          content: "hello",
+          toolSteps: [{ name: 3 }],
+          comparison: { answers: [{ label: 1, meta: "m" }], preferred: 3 },
+        },
+      ],
+    });
+    expect(imported.messages).toEqual([
+      { role: "user", content: "hi" },
+      {
+        role: "assistant",
+        content: "hello",
+        comparison: { answers: [{ label: "", model: "", content: "" }] },
+      },
+    ]);
+  });
+
+  it("falls back to the default for each bad setting", () => {
+    const imported = importJson({
+      settings: {
+        systemPrompt: null,
+        temperature: 9,
+        contextSize: "big",
+        topP: 0.5,
+      },
+      messages: [],
+    });
+    expect(imported.settings).toEqual({ ...DEFAULT_MODEL_SETTINGS, topP: 0.5 });
+    expect(importJson({ settings: "oops", messages: [] }).settings).toEqual(
+      DEFAULT_MODEL_SETTINGS,
+    );
+  });
+
+  it.each([1.5, -1, 2, "0", null])(
+    "drops a fork whose active slot is %s",
+    (active) => {
+      const imported = importJson({
+        messages: [{ id: "q1", role: "user", content: "hi" }],
+        branches: {
+          q1: {
+            active,
+            alternatives: [null, [{ role: "assistant", content: "a" }]],
+          },
+        },
+      });
+      expect(imported.branches).toEqual({});
+    },
+  );
+});
@@ -0,0 +1,492 @@
+import {
+  Attachment,
+  TextAttachment,
+  inlineAttachment,
+  parseAttachment,
+  toApiContent,
+} from "@/lib/attachments";
+import {
+  Branches,
+  CompareTarget,
+  Comparison,
+  Conversation,
+  Message,
+  MessageMeta,
+  ToolStep,
+  createConversation,
+  deriveTitle,
+  parseSettings,
+} from "@/lib/conversations";
+
+/**
+ * Getting conversations in and out of the browser:
+ *   Markdown  readable transcript for bug reports; code blocks kept verbatim
+ *   JSON      everything — settings, timestamps, attachments, stream metadata,
+ *             branches
+ *   JSONL     OpenAI chat fine-tuning format, one conversation per line
+ *   Preferences  compare-mode votes as OpenAI preference (DPO) pairs
+ * JSON and JSONL can be imported back.
+ */
+
+export type ExportFormat = "markdown" | "json" | "jsonl" | "preferences";
+
+export const EXPORT_FORMATS: {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mime: string;
+}[] = [
+  {
+    format: "markdown",
+    label: "Markdown",
+    extension: "md",
+    mime: "text/markdown",
+  },
+  {
+    format: "json",
+    label: "JSON",
+    extension: "json",
+    mime: "application/json",
+  },
+  {
+    format: "jsonl",
+    label: "JSONL (fine-tuning)",
+    extension: "jsonl",
+    mime: "application/jsonl",
+  },
+  {
+    format: "preferences",
+    label: "Preferences (JSONL)",
+    extension: "preferences.jsonl",
+    mime: "application/jsonl",
+  },
+];
+
+const FILE_FORMAT = "qwen-chat-conversation";
+const FILE_VERSION = 1;
+
+function isError(message: Message): boolean {
+  return message.content.startsWith("⚠️");
+}
+
+function slugify(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 48) || "conversation"
+  );
+}
+
+function attachmentMarkdown(attachment: Attachment): string {
+  return attachment.kind === "text"
+    ? inlineAttachment(attachment)
+    : `*Image: ${attachment.name}*`;
+}
+
+function comparisonMarkdown({ answers, preferred }: Comparison): string {
+  return answers
+    .map((answer, i) => {
+      const stats = [
+        answer.ttftMs !== undefined && `first token ${answer.ttftMs} ms`,
+        answer.durationMs !== undefined && `total ${answer.durationMs} ms`,
+        answer.meta?.usage && `${answer.meta.usage.completionTokens} tokens`,
+      ].filter(Boolean);
+      return [
+        `### ${answer.label}${i === preferred ? " ✅ preferred" : ""}`,
+        ...(stats.length > 0 ? [`*${stats.join(" · ")}*`] : []),
+        answer.meta?.error ? `> ⚠️ ${answer.meta.error}` : "",
+        answer.content,
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+    })
+    .join("\n\n");
+}
+
+export function toMarkdown(conversation: Conversation): string {
+  const lines = [
+    `# ${conversation.title}`,
+    "",
+    `- Model: \`${conversation.settings.model}\``,
+    `- Started: ${new Date(conversation.createdAt).toISOString()}`,
+    "",
+    "## System prompt",
+    "",
+    conversation.settings.systemPrompt,
+  ];
+  for (const message of conversation.messages) {
+    lines.push(
+      "",
+      "---",
+      "",
+      message.role === "user" ? "## 👤 User" : "## 🤖 Assistant",
+      "",
+    );
+    if (message.comparison) {
+      lines.push(comparisonMarkdown(message.comparison));
+      continue;
+    }
+    const parts = [
+      message.content,
+      ...(message.attachments || []).map(attachmentMarkdown),
+    ].filter(Boolean);
+    lines.push(parts.join("\n\n"));
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function toJson(conversation: Conversation): string {
+  return JSON.stringify(
+    { format: FILE_FORMAT, version: FILE_VERSION, conversation },
+    null,
+    2,
+  );
+}
+
+/**
+ * One training example. Failed turns (and the question they failed on) are
+ * left out, text attachments are inlined as the model saw them, and images
+ * (which fine-tuning data can't carry as data URLs) are dropped.
+ */
+export function toJsonl(conversation: Conversation): string {
+  const kept: Message[] = [];
+  for (const message of conversation.messages) {
+    if (isError(message)) {
+      if (kept[kept.length - 1]?.role === "user") kept.pop();
+    } else if (message.content || message.attachments?.length) {
+      kept.push(message);
+    }
+  }
+  // An example has to end on an answer
+  while (kept.length > 0 && kept[kept.length - 1].role === "user") kept.pop();
+
+  const messages = [
+    { role: "system", content: conversation.settings.systemPrompt },
+    ...kept.map(trainingMessage),
+  ];
+  return JSON.stringify({ messages }) + "\n";
+}
+
+function trainingMessage(m: Message) {
+  return {
+    role: m.role,
+    content: toApiContent(
+      {
+        content: m.content,
+        attachments: m.attachments?.filter(
+          (a): a is TextAttachment => a.kind === "text",
+        ),
+      },
+      false,
+    ),
+  };
+}
+
+export function hasPreferences(conversation: Conversation): boolean {
+  return conversation.messages.some(
+    (m) => m.comparison?.preferred !== undefined,
+  );
+}
+
+/**
+ * One preference pair per voted comparison and answer that lost, each with
+ * the conversation up to the prompt. Failed answers aren't worth learning
+ * from and are left out.
+ */
+export function toPreferences(conversation: Conversation): string {
+  const lines: string[] = [];
+  conversation.messages.forEach((message, i) => {
+    const comparison = message.comparison;
+    if (comparison?.preferred === undefined) return;
+    const chosen = comparison.answers[comparison.preferred];
+    const history = [
+      { role: "system", content: conversation.settings.systemPrompt },
+      ...conversation.messages
+        .slice(0, i)
+        .filter((m) => !isError(m))
+        .map(trainingMessage),
+    ];
+    comparison.answers.forEach((answer, j) => {
+      if (j === comparison.preferred || answer.meta?.error) return;
+      if (!answer.content.trim()) return;
+      lines.push(
+        JSON.stringify({
+          input: { messages: history },
+          preferred_output: [{ role: "assistant", content: chosen.content }],
+          non_preferred_output: [
+            { role: "assistant", content: answer.content },
+          ],
+        }),
+      );
+    });
+  });
+  return lines.map((line) => line + "\n").join("");
+}
+
+export function exportConversation(
+  conversation: Conversation,
+  format: ExportFormat,
+): { filename: string; text: string; mime: string } {
+  const { extension, mime } = EXPORT_FORMATS.find((f) => f.format === format)!;
+  const text =
+    format === "markdown"
+      ? toMarkdown(conversation)
+      : format === "json"
+        ? toJson(conversation)
+        : format === "jsonl"
+          ? toJsonl(conversation)
+          : toPreferences(conversation);
+  return {
+    filename: `${slugify(conversation.title)}.${extension}`,
+    text,
+    mime,
+  };
+}
+
+export function downloadText(filename: string, text: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// ===== Import =====
+
+function contentText(content: unknown): string | null {
+  if (typeof content === "string") return content;
+  // Multi-part content: keep the text, images can't be restored from a URL
+  if (Array.isArray(content)) {
+    return content
+      .filter((p) => p?.type === "text" && typeof p.text === "string")
+      .map((p) => p.text)
+      .join("\n\n");
+  }
+  return null;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+// Meta is only shown, but a field of the wrong type would still break the
+// render, so each is checked and the rest dropped
+function parseMeta(raw: unknown): MessageMeta | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const { model, backend, skipped, finishReason, usage, error, sources } =
+    raw as Record<string, unknown>;
+  const tokens = usage as Record<string, unknown> | undefined;
+  const meta: MessageMeta = {
+    ...(typeof model === "string" && { model }),
+    ...(typeof backend === "string" && { backend }),
+    ...(isStringList(skipped) && { skipped }),
+    ...(typeof finishReason === "string" && { finishReason }),
+    ...(typeof error === "string" && { error }),
+    ...(typeof tokens?.completionTokens === "number" && {
+      usage: {
+        promptTokens: Number(tokens.promptTokens) || 0,
+        completionTokens: tokens.completionTokens,
+        totalTokens: Number(tokens.totalTokens) || 0,
+      },
+    }),
+    ...(Array.isArray(sources) &&
+      sources.every(
+        (c) =>
+          typeof c?.path === "string" &&
+          typeof c.text === "string" &&
+          typeof c.startLine === "number" &&
+          typeof c.endLine === "number",
+      ) && { sources }),
+  };
+  return Object.keys(meta).length > 0 ? meta : undefined;
+}
+
+function parseComparison(raw: unknown): Comparison | undefined {
+  const { answers, preferred } = (raw ?? {}) as Partial<Comparison>;
+  if (!Array.isArray(answers) || answers.length === 0) return undefined;
+  const parsed = answers.map((a) => {
+    const meta = parseMeta(a?.meta);
+    return {
+      label: typeof a?.label === "string" ? a.label : "",
+      model: typeof a?.model === "string" ? a.model : "",
+      content: typeof a?.content === "string" ? a.content : "",
+      ...(meta && { meta }),
+      ...(typeof a?.ttftMs === "number" && { ttftMs: a.ttftMs }),
+      ...(typeof a?.durationMs === "number" && { durationMs: a.durationMs }),
+    };
+  });
+  const comparison: Comparison = { answers: parsed };
+  if (typeof preferred === "number" && parsed[preferred]) {
+    comparison.preferred = preferred;
+  }
+  return comparison;
+}
+
+function parseToolSteps(raw: unknown): ToolStep[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(
+      (step) =>
+        typeof step?.id === "string" &&
+        typeof step.name === "string" &&
+        typeof step.arguments === "string",
+    )
+    .map((step) => ({
+      id: step.id,
+      name: step.name,
+      arguments: step.arguments,
+      ...(typeof step.result === "string" && { result: step.result }),
+      ...(typeof step.error === "boolean" && { error: step.error }),
+    }));
+}
+
+function parseCompareTargets(raw: unknown): CompareTarget[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(
+      (t) =>
+        typeof t?.profileId === "string" &&
+        typeof t.model === "string" &&
+        typeof t.label === "string",
+    )
+    .map(({ profileId, model, label }) => ({ profileId, model, label }));
+}
+
+function parseMessages(raw: unknown, where: string): Message[] {
+  if (!Array.isArray(raw)) {
+    throw new Error(`${where}: "messages" must be a list`);
+  }
+  return raw.map((m, i) => {
+    const content = contentText(m?.content);
+    if ((m?.role !== "user" && m?.role !== "assistant") || content === null) {
+      throw new Error(
+        `${where}, message ${i + 1}: needs a user or assistant role and text content`,
+      );
+    }
+    // Unreadable attachments are dropped rather than failing the import
+    const attachments = Array.isArray(m.attachments)
+      ? m.attachments
+          .map(parseAttachment)
+          .filter((a: Attachment | null): a is Attachment => a !== null)
+      : [];
+    const toolSteps = parseToolSteps(m.toolSteps);
+    const meta = parseMeta(m.meta);
+    const comparison = parseComparison(m.comparison);
+    return {
+      ...(typeof m.id === "string" && { id: m.id }),
+      role: m.role,
+      content,
+      ...(attachments.length > 0 && { attachments }),
+      ...(toolSteps.length > 0 && { toolSteps }),
+      ...(meta && { meta }),
+      ...(comparison && { comparison }),
+    };
+  });
+}
+
+/** Branches that don't hold together are dropped, not fatal. */
+function parseBranches(raw: unknown): Branches | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const branches: Branches = {};
+  for (const [key, fork] of Object.entries(raw)) {
+    const alternatives = fork?.alternatives;
+    if (
+      !Array.isArray(alternatives) ||
+      !Number.isInteger(fork.active) ||
+      fork.active < 0 ||
+      fork.active >= alternatives.length ||
+      alternatives[fork.active] !== null
+    ) {
+      continue;
+    }
+    try {
+      branches[key] = {
+        active: fork.active,
+        alternatives: alternatives.map((a: unknown, i: number) =>
+          i === fork.active ? null : parseMessages(a, "branch"),
+        ),
+      };
+    } catch {
+      continue;
+    }
+  }
+  return branches;
+}
+
+function fromJson(data: unknown): Conversation {
+  const raw =
+    data && typeof data === "object" && "conversation" in data
+      ? (data as { conversation: unknown }).conversation
+      : data;
+  if (!raw || typeof raw !== "object") {
+    throw new Error("The file doesn't contain a conversation");
+  }
+  const source = raw as Partial<Conversation>;
+  // A fresh id so importing the same file twice doesn't clash
+  const conversation = createConversation(parseSettings(source.settings));
+  conversation.messages = parseMessages(source.messages, "conversation");
+  const branches = parseBranches(source.branches);
+  if (branches) conversation.branches = branches;
+  const compareTargets = parseCompareTargets(source.compareTargets);
+  if (compareTargets.length > 0) conversation.compareTargets = compareTargets;
+  if (typeof source.title === "string") conversation.title = source.title;
+  if (typeof source.createdAt === "number") {
+    conversation.createdAt = source.createdAt;
+  }
+  if (typeof source.updatedAt === "number") {
+    conversation.updatedAt = source.updatedAt;
+  }
+  return { ...conversation, title: deriveTitle(conversation) };
+}
+
+function fromJsonlLine(line: string, lineNumber: number): Conversation {
+  const where = `Line ${lineNumber}`;
+  let data;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    throw new Error(`${where} is not valid JSON`);
+  }
+  const messages: unknown[] = Array.isArray(data?.messages)
+    ? data.messages
+    : [];
+  const system = messages.find(
+    (m): m is { role: string; content: unknown } =>
+      (m as { role?: unknown })?.role === "system",
+  );
+  const conversation = createConversation(
+    parseSettings({ systemPrompt: contentText(system?.content) || undefined }),
+  );
+  conversation.messages = parseMessages(
+    messages.filter((m) => m !== system),
+    where,
+  );
+  return { ...conversation, title: deriveTitle(conversation) };
+}
+
+/** Parse an exported file. Throws with a user-facing message. */
+export function parseTranscript(
+  text: string,
+  filename: string,
+): Conversation[] {
+  if (filename.toLowerCase().endsWith(".jsonl")) {
+    const conversations = text
+      .split("\n")
+      .map((line, i) => [line.trim(), i + 1] as const)
+      .filter(([line]) => line)
+      .map(([line, n]) => fromJsonlLine(line, n));
+    if (conversations.length === 0) throw new Error("The file is empty");
+    return conversations;
+  }
+
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  return Array.isArray(data) ? data.map(fromJson) : [fromJson(data)];
+}
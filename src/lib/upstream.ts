@@ -0,0 +1,47 @@
+/** Helpers shared by the API routes that talk to the model server. */
+
+/** The notebook prints the bare ngrok URL; the OpenAI API lives under /v1. */
+export function normalizeBaseUrl(apiUrl: string): string {
+  let baseUrl = apiUrl.replace(/\/+$/, "");
+  if (!baseUrl.endsWith("/v1")) {
+    baseUrl += "/v1";
+  }
+  return baseUrl;
+}
+
+export function upstreamHeaders(apiKey: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${apiKey}`,
+    "ngrok-skip-browser-warning": "true",
+    "User-Agent": "QwenChatBot/1.0",
+  };
+}
+
+/** An expired or interstitial ngrok tunnel answers with an HTML page. */
+export function isNgrokHtml(errorText: string): boolean {
+  return errorText.includes("<html") || errorText.includes("ngrok");
+}
+
+/**
+ * Upstream fetches use `redirect: "manual"`: the host allow-list only vets
+ * the URL we call, and a redirect could send us anywhere, internal hosts
+ * included. A 3xx is reported with this instead of being followed.
+ */
+export const REDIRECT_ERROR =
+  "The model server answered with a redirect, which isn't followed. Use the address it redirects to as the backend URL.";
+
+export function isRedirect(response: Response): boolean {
+  return response.status >= 300 && response.status < 400;
+}
+
+export function isHtmlResponse(response: Response): boolean {
+  return (response.headers.get("content-type") || "").includes("text/html");
+}
+
+export function jsonError(error: string, status: number): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,97 @@
+import { inflateRawSync } from "zlib";
+
+/**
+ * Just enough of the ZIP format to read uploaded project archives: stored
+ * and deflated entries, no encryption, no ZIP64. Sizes are capped so a zip
+ * bomb can't exhaust memory.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+// End-of-central-directory record plus the longest possible comment
+const EOCD_SEARCH_BYTES = 22 + 0xffff;
+
+export interface ZipLimits {
+  maxEntries: number;
+  /** Total uncompressed bytes across all entries kept. */
+  maxTotalBytes: number;
+  /** Larger entries are skipped rather than failing the archive. */
+  maxEntryBytes: number;
+}
+
+export function readZip(zip: Buffer, limits: ZipLimits): ZipEntry[] {
+  let eocd = -1;
+  const stop = Math.max(0, zip.length - EOCD_SEARCH_BYTES);
+  for (let i = zip.length - 22; i >= stop; i--) {
+    if (zip.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a zip archive");
+
+  const count = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives aren't supported");
+  }
+  if (count > limits.maxEntries) {
+    throw new Error(`The archive has more than ${limits.maxEntries} entries`);
+  }
+
+  const entries: ZipEntry[] = [];
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt zip central directory");
+    }
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const encrypted = (flags & 1) !== 0;
+    if (name.endsWith("/") || encrypted || size > limits.maxEntryBytes) {
+      continue;
+    }
+    if (method !== 0 && method !== 8) continue;
+    if (total + size > limits.maxTotalBytes) {
+      throw new Error(
+        `The archive unpacks to more than ${Math.round(limits.maxTotalBytes / 1024 / 1024)} MB`,
+      );
+    }
+
+    if (zip.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupt zip entry: ${name}`);
+    }
+    const start =
+      localOffset +
+      30 +
+      zip.readUInt16LE(localOffset + 26) +
+      zip.readUInt16LE(localOffset + 28);
+    const raw = zip.subarray(start, start + compressedSize);
+    // The central directory's size can lie; never inflate past it
+    let data = raw;
+    if (method === 8) {
+      data =
+        size === 0
+          ? Buffer.alloc(0)
+          : inflateRawSync(raw, { maxOutputLength: size });
+    }
+    total += data.length;
+    entries.push({ name, data });
+  }
+  return entries;
+}